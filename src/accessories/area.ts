@@ -0,0 +1,71 @@
+import { Service, CharacteristicValue } from 'homebridge';
+import { VantageAccessory, VantageAccessoryConfig } from './base';
+import { VantagePlatform } from '../platform';
+
+// Switches one member load, through its own accessory where it has one
+export type VantageAreaLoadSwitch = (vid: string, on: boolean) => Promise<void>;
+
+export interface VantageAreaState {
+  // Last reported level of each member load
+  levels: Map<string, number>;
+}
+
+/**
+ * Master switch for an area (config.vid is the area's VID). It is on while any of the
+ * area's lights is on; switching it turns all of them on or off together, each with its
+ * own on-level and fade. The member loads' own accessories poll their levels, so the area
+ * only follows their status and starts from the last levels the platform has seen.
+ */
+export class VantageAreaSwitch extends VantageAccessory {
+  private readonly switchService: Service;
+  private state: VantageAreaState = {
+    levels: new Map(),
+  };
+
+  constructor(
+    platform: VantagePlatform,
+    config: VantageAccessoryConfig,
+    private readonly loads: string[],
+    private readonly switchLoad: VantageAreaLoadSwitch,
+    private readonly loadLevels: ReadonlyMap<string, number>,
+  ) {
+    super(platform, config);
+
+    this.switchService = new platform.Service.Switch(config.name);
+
+    this.switchService
+      .getCharacteristic(platform.Characteristic.On)
+      .onGet(() => this.readState(this.isOn()))
+      .onSet(async (value: CharacteristicValue) => {
+        await this.runCommand(
+          value ? 'turn on area' : 'turn off area',
+          () => Promise.all(this.loads.map(vid => this.switchLoad(vid, value as boolean))),
+        );
+      });
+
+    this.services.push(this.switchService);
+
+    // Get initial state
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.loads.filter(vid => this.loadLevels.has(vid)).forEach(vid => this.updateLoad(vid, this.loadLevels.get(vid)));
+  }
+
+  getModel(): string {
+    return 'Area';
+  }
+
+  updateLoad(vid: string, level: number): void {
+    this.state.levels.set(vid, level);
+
+    this.switchService
+      .getCharacteristic(this.platform.Characteristic.On)
+      .updateValue(this.isOn());
+  }
+
+  private isOn(): boolean {
+    return [...this.state.levels.values()].some(level => level > 0);
+  }
+}
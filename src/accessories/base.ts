@@ -1,4 +1,4 @@
-import {Service} from 'homebridge';
+import {Controller, Service} from 'homebridge';
 import {VantagePlatform} from '../platform';
 
 export interface VantageAccessoryConfig {
@@ -9,6 +9,7 @@ export interface VantageAccessoryConfig {
 
 export abstract class VantageAccessory {
   protected readonly services: Service[] = [];
+  protected readonly controllers: Controller[] = [];
   protected readonly informationService: Service;
 
   constructor(
@@ -26,7 +27,73 @@ export abstract class VantageAccessory {
 
   abstract getModel(): string;
 
+  // Re-reads the accessory's state from the controller, at startup and after every reconnect
+  abstract refreshState(): void;
+
+  // Flags services that can report a fault while the controller is unreachable
+  updateConnection(connected: boolean): void {
+    const { StatusFault } = this.platform.Characteristic;
+    this.services
+      .filter(service => service.optionalCharacteristics.some(characteristic => characteristic.UUID === StatusFault.UUID))
+      .forEach(service => service.getCharacteristic(StatusFault)
+        .updateValue(connected ? StatusFault.NO_FAULT : StatusFault.GENERAL_FAULT));
+  }
+
+  // Runs a controller command for a characteristic write, turning a rejected or timed out
+  // command into a communication failure HomeKit can show instead of a silent success.
+  // Writes made while (re)connecting are queued; between reconnect attempts they fail at once.
+  // The rollback undoes the optimistic state change the write made.
+  protected async runCommand(description: string, command: () => Promise<unknown>, rollback?: () => void): Promise<void> {
+    try {
+      if (!this.platform.infusion.acceptingCommands) {
+        throw new Error('controller is not connected');
+      }
+      await command();
+    } catch (error) {
+      rollback?.();
+      this.platform.log.error(`Failed to ${description} for ${this.config.name}: ${(error as Error).message}`);
+      throw this.communicationFailure();
+    }
+  }
+
+  // Applies an optimistic change for a write and returns its rollback. The rollback only
+  // restores fields that still hold the written value, keeping status received meanwhile.
+  protected changeState<S extends object>(state: S, changes: Partial<S>): () => void {
+    const keys = Object.keys(changes) as (keyof S)[];
+    const previous = keys.map(key => state[key]);
+    Object.assign(state, changes);
+    return () => keys.forEach((key, index) => {
+      if (state[key] === changes[key]) {
+        state[key] = previous[index];
+      }
+    });
+  }
+
+  // Answers a characteristic read from cached state, which is only current while connected
+  protected readState<T>(value: T): T {
+    if (!this.platform.infusion.connected) {
+      throw this.communicationFailure();
+    }
+    return value;
+  }
+
+  // Requests state from the controller; the answer arrives through the status events
+  protected requestState(request: Promise<unknown>): void {
+    request.catch((error: Error) => {
+      this.platform.log.debug(`Failed to get state for ${this.config.name}: ${error.message}`);
+    });
+  }
+
+  private communicationFailure(): Error {
+    return new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  }
+
   getServices(): Service[] {
     return this.services;
   }
+
+  // HAP controllers (such as Adaptive Lighting) to configure once the services are attached
+  getControllers(): Controller[] {
+    return this.controllers;
+  }
 }
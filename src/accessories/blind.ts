@@ -8,6 +8,11 @@ export interface VantageBlindState {
   positionState: number; // 0=decreasing, 1=increasing, 2=stopped
 }
 
+export interface VantageBlindOptions {
+  // A motor load whose level is the position, for loads overridden to a window covering
+  load?: boolean;
+}
+
 export class VantageBlind extends VantageAccessory {
   private readonly blindService: Service;
   private state: VantageBlindState = {
@@ -19,6 +24,7 @@ export class VantageBlind extends VantageAccessory {
   constructor(
     platform: VantagePlatform,
     config: VantageAccessoryConfig,
+    private readonly options: VantageBlindOptions = {},
   ) {
     super(platform, config);
 
@@ -27,35 +33,48 @@ export class VantageBlind extends VantageAccessory {
     // Current Position
     this.blindService
       .getCharacteristic(platform.Characteristic.CurrentPosition)
-      .onGet(() => this.state.currentPosition);
+      .onGet(() => this.readState(this.state.currentPosition));
 
     // Target Position
     this.blindService
       .getCharacteristic(platform.Characteristic.TargetPosition)
-      .onGet(() => this.state.targetPosition)
+      .onGet(() => this.readState(this.state.targetPosition))
       .onSet(async (value: CharacteristicValue) => {
         const newPosition = value as number;
-        this.state.targetPosition = newPosition;
+        const changes: Partial<VantageBlindState> = { targetPosition: newPosition };
         
         // Update position state based on movement direction
         if (newPosition > this.state.currentPosition) {
-          this.state.positionState = 1; // increasing
+          changes.positionState = 1; // increasing
         } else if (newPosition < this.state.currentPosition) {
-          this.state.positionState = 0; // decreasing
+          changes.positionState = 0; // decreasing
         }
         
-        await this.platform.infusion.setBlindPosition(this.config.vid, newPosition);
+        const rollback = this.changeState(this.state, changes);
+        await this.runCommand(
+          'set position',
+          () => this.options.load
+            ? this.platform.infusion.setLoadLevel(this.config.vid, newPosition)
+            : this.platform.infusion.setBlindPosition(this.config.vid, newPosition),
+          rollback,
+        );
       });
 
     // Position State (moving up/down/stopped)
     this.blindService
       .getCharacteristic(platform.Characteristic.PositionState)
-      .onGet(() => this.state.positionState);
+      .onGet(() => this.readState(this.state.positionState));
 
     this.services.push(this.blindService);
 
     // Get initial state
-    this.platform.infusion.getBlindPosition(this.config.vid);
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.options.load
+      ? this.platform.infusion.getLoadStatus(this.config.vid)
+      : this.platform.infusion.getBlindPosition(this.config.vid));
   }
 
   getModel(): string {
@@ -0,0 +1,99 @@
+import { Characteristic, Service, WithUUID } from 'homebridge';
+import { VantageAccessory, VantageAccessoryConfig } from './base';
+import { VantagePlatform } from '../platform';
+import { ContactSensorType } from '../config';
+
+export interface VantageContactState {
+  closed: boolean;
+}
+
+/**
+ * A dry-contact input. The same closed/open input drives whichever sensor the
+ * wiring represents: a door contact, motion detector, occupancy sensor or leak probe.
+ */
+export class VantageContactSensor extends VantageAccessory {
+  private readonly sensorService: Service;
+  private readonly characteristic: WithUUID<new () => Characteristic>;
+  private state: VantageContactState = {
+    closed: false,
+  };
+
+  constructor(
+    platform: VantagePlatform,
+    config: VantageAccessoryConfig,
+    private readonly sensorType: ContactSensorType = 'contact',
+    private readonly inverted = false,
+  ) {
+    super(platform, config);
+
+    const { Service, Characteristic } = platform;
+    switch (sensorType) {
+      case 'motion':
+        this.sensorService = new Service.MotionSensor(config.name);
+        this.characteristic = Characteristic.MotionDetected;
+        break;
+      case 'occupancy':
+        this.sensorService = new Service.OccupancySensor(config.name);
+        this.characteristic = Characteristic.OccupancyDetected;
+        break;
+      case 'leak':
+        this.sensorService = new Service.LeakSensor(config.name);
+        this.characteristic = Characteristic.LeakDetected;
+        break;
+      default:
+        this.sensorService = new Service.ContactSensor(config.name);
+        this.characteristic = Characteristic.ContactSensorState;
+        break;
+    }
+
+    this.sensorService
+      .getCharacteristic(this.characteristic)
+      .onGet(() => this.readState(this.sensorValue()));
+
+    this.services.push(this.sensorService);
+
+    // Get initial state
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.platform.infusion.getContactState(this.config.vid));
+  }
+
+  getModel(): string {
+    return 'Dry Contact';
+  }
+
+  get detected(): boolean {
+    return this.state.closed !== this.inverted;
+  }
+
+  updateState(closed: boolean): void {
+    this.state.closed = closed;
+
+    this.sensorService
+      .getCharacteristic(this.characteristic)
+      .updateValue(this.sensorValue());
+  }
+
+  private sensorValue(): number | boolean {
+    const { Characteristic } = this.platform;
+    switch (this.sensorType) {
+      case 'motion':
+        return this.detected;
+      case 'occupancy':
+        return this.detected
+          ? Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+          : Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+      case 'leak':
+        return this.detected
+          ? Characteristic.LeakDetected.LEAK_DETECTED
+          : Characteristic.LeakDetected.LEAK_NOT_DETECTED;
+      default:
+        // A closed door contact is HomeKit's "contact detected", i.e. the door is shut
+        return this.detected
+          ? Characteristic.ContactSensorState.CONTACT_DETECTED
+          : Characteristic.ContactSensorState.CONTACT_NOT_DETECTED;
+    }
+  }
+}
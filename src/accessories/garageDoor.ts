@@ -0,0 +1,180 @@
+import { Service, CharacteristicValue } from 'homebridge';
+import { VantageAccessory, VantageAccessoryConfig } from './base';
+import { VantagePlatform } from '../platform';
+
+const DEFAULT_PULSE_TIME = 1;
+const DEFAULT_TRAVEL_TIME = 20;
+
+export interface VantageGarageDoorOptions {
+  contact: string;
+  pulseTime?: number;
+  travelTime?: number;
+  inverted?: boolean;
+}
+
+export interface VantageGarageDoorState {
+  currentDoorState: number;
+  targetDoorState: number;
+  obstructionDetected: boolean;
+  doorClosed: boolean;
+  // Whether the contact has reported since startup
+  known: boolean;
+}
+
+/**
+ * A garage door or gate built from a momentary relay (config.vid) and a contact that
+ * closes when the door is shut. The contact only knows "closed" or "not closed", so
+ * opening is assumed complete after the travel time, and a door that does not reach
+ * the contact in that time is reported as obstructed.
+ */
+export class VantageGarageDoor extends VantageAccessory {
+  private readonly doorService: Service;
+  private travelTimer?: NodeJS.Timeout;
+  private state: VantageGarageDoorState;
+
+  constructor(
+    platform: VantagePlatform,
+    config: VantageAccessoryConfig,
+    private readonly options: VantageGarageDoorOptions,
+  ) {
+    super(platform, config);
+
+    const { CurrentDoorState, TargetDoorState } = platform.Characteristic;
+    this.state = {
+      currentDoorState: CurrentDoorState.CLOSED,
+      targetDoorState: TargetDoorState.CLOSED,
+      obstructionDetected: false,
+      doorClosed: true,
+      known: false,
+    };
+
+    this.doorService = new platform.Service.GarageDoorOpener(config.name);
+
+    this.doorService
+      .getCharacteristic(CurrentDoorState)
+      .onGet(() => this.readState(this.state.currentDoorState));
+
+    this.doorService
+      .getCharacteristic(TargetDoorState)
+      .onGet(() => this.readState(this.state.targetDoorState))
+      .onSet(async (value: CharacteristicValue) => {
+        await this.operate(value as number);
+      });
+
+    this.doorService
+      .getCharacteristic(platform.Characteristic.ObstructionDetected)
+      .onGet(() => this.readState(this.state.obstructionDetected));
+
+    this.services.push(this.doorService);
+
+    // Get initial state
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.platform.infusion.getContactState(this.options.contact));
+  }
+
+  getModel(): string {
+    return 'Garage Door';
+  }
+
+  updateContact(contactClosed: boolean): void {
+    const { CurrentDoorState, TargetDoorState } = this.platform.Characteristic;
+    const doorClosed = contactClosed !== (this.options.inverted ?? false);
+    const firstReport = !this.state.known;
+    this.state.known = true;
+    this.state.doorClosed = doorClosed;
+
+    if (doorClosed) {
+      this.stopTravel();
+      this.state.obstructionDetected = false;
+      this.setDoorState(CurrentDoorState.CLOSED, TargetDoorState.CLOSED);
+    } else if (firstReport) {
+      this.setDoorState(CurrentDoorState.OPEN, TargetDoorState.OPEN);
+    } else if (this.state.currentDoorState === CurrentDoorState.CLOSED) {
+      // Opened from the wall button or a Vantage keypad
+      this.setDoorState(CurrentDoorState.OPENING, TargetDoorState.OPEN);
+      this.startTravel();
+    }
+  }
+
+  private async operate(target: number): Promise<void> {
+    const { CurrentDoorState, TargetDoorState } = this.platform.Characteristic;
+    const opening = target === TargetDoorState.OPEN;
+    const current = this.state.currentDoorState;
+
+    if (opening ? [CurrentDoorState.OPEN, CurrentDoorState.OPENING].includes(current)
+      : [CurrentDoorState.CLOSED, CurrentDoorState.CLOSING].includes(current)) {
+      this.state.targetDoorState = target;
+      return;
+    }
+
+    const rollback = this.changeState(this.state, {
+      obstructionDetected: false,
+      currentDoorState: opening ? CurrentDoorState.OPENING : CurrentDoorState.CLOSING,
+      targetDoorState: target,
+    });
+    this.showDoorState();
+    this.startTravel();
+    const pulseTime = (this.options.pulseTime ?? DEFAULT_PULSE_TIME) * 1000;
+    await this.runCommand(opening ? 'open door' : 'close door', () => this.platform.infusion.pulseLoad(this.config.vid, pulseTime), () => {
+      // The contact corrects this if the relay did get pulsed
+      this.stopTravel();
+      rollback();
+      this.showDoorState();
+    });
+  }
+
+  private startTravel(): void {
+    this.stopTravel();
+    this.travelTimer = setTimeout(() => {
+      this.travelTimer = undefined;
+      this.finishTravel();
+    }, (this.options.travelTime ?? DEFAULT_TRAVEL_TIME) * 1000);
+  }
+
+  private stopTravel(): void {
+    if (this.travelTimer) {
+      clearTimeout(this.travelTimer);
+      this.travelTimer = undefined;
+    }
+  }
+
+  // The door has had its full travel time; closing ends early when the contact closes
+  private finishTravel(): void {
+    const { CurrentDoorState, TargetDoorState } = this.platform.Characteristic;
+
+    if (this.state.currentDoorState === CurrentDoorState.OPENING) {
+      if (this.state.doorClosed) {
+        this.platform.log.warn(`${this.config.name} did not open within its travel time`);
+        this.state.obstructionDetected = true;
+        this.setDoorState(CurrentDoorState.CLOSED, TargetDoorState.CLOSED);
+      } else {
+        this.setDoorState(CurrentDoorState.OPEN, TargetDoorState.OPEN);
+      }
+    } else if (this.state.currentDoorState === CurrentDoorState.CLOSING) {
+      this.platform.log.warn(`${this.config.name} did not close within its travel time`);
+      this.state.obstructionDetected = true;
+      this.setDoorState(CurrentDoorState.OPEN, TargetDoorState.OPEN);
+    }
+  }
+
+  private setDoorState(current: number, target: number): void {
+    this.state.currentDoorState = current;
+    this.state.targetDoorState = target;
+    this.showDoorState();
+  }
+
+  private showDoorState(): void {
+    this.doorService
+      .getCharacteristic(this.platform.Characteristic.TargetDoorState)
+      .updateValue(this.state.targetDoorState);
+    this.doorService
+      .getCharacteristic(this.platform.Characteristic.CurrentDoorState)
+      .updateValue(this.state.currentDoorState);
+    this.doorService
+      .getCharacteristic(this.platform.Characteristic.ObstructionDetected)
+      .updateValue(this.state.obstructionDetected);
+  }
+}
@@ -0,0 +1,106 @@
+import { Service } from 'homebridge';
+import { VantageAccessory, VantageAccessoryConfig } from './base';
+import { VantagePlatform } from '../platform';
+import { VantageButton } from '../vantageInfusion';
+
+// A second press within this window after a release counts as a double press
+const DOUBLE_PRESS_WINDOW = 500;
+// Releasing a button held this long counts as a long press even without a HOLD event
+const LONG_PRESS_TIME = 1000;
+
+interface ButtonState {
+  service: Service;
+  pressedAt: number;
+  // Set once the current press has been reported, so its RELEASE is ignored
+  handled: boolean;
+  singlePressTimer?: NodeJS.Timeout;
+}
+
+export class VantageKeypad extends VantageAccessory {
+  private readonly buttons = new Map<string, ButtonState>();
+
+  constructor(
+    platform: VantagePlatform,
+    config: VantageAccessoryConfig,
+    buttons: VantageButton[],
+  ) {
+    super(platform, config);
+
+    // Stations with several buttons need a label service so the Home app can order them
+    const labelService = new platform.Service.ServiceLabel(config.name);
+    labelService.setCharacteristic(
+      platform.Characteristic.ServiceLabelNamespace,
+      platform.Characteristic.ServiceLabelNamespace.ARABIC_NUMERALS,
+    );
+    this.services.push(labelService);
+
+    for (const button of buttons) {
+      const service = new platform.Service.StatelessProgrammableSwitch(button.Name, button.VID);
+      service.setCharacteristic(platform.Characteristic.ServiceLabelIndex, button.Position);
+      service
+        .getCharacteristic(platform.Characteristic.ProgrammableSwitchEvent)
+        .onGet(() => null);
+
+      this.services.push(service);
+      this.buttons.set(button.VID, { service, pressedAt: 0, handled: false });
+    }
+  }
+
+  getModel(): string {
+    return 'Keypad';
+  }
+
+  refreshState(): void {
+    // Buttons are stateless; there is nothing to read back from the controller
+  }
+
+  handleButtonEvent(vid: string, action: string): void {
+    const button = this.buttons.get(vid);
+    if (!button) {
+      return;
+    }
+
+    const { SINGLE_PRESS, DOUBLE_PRESS, LONG_PRESS } = this.platform.Characteristic.ProgrammableSwitchEvent;
+
+    switch (action) {
+      case 'PRESS':
+        if (button.singlePressTimer) {
+          // Pressed again before the previous press was reported
+          clearTimeout(button.singlePressTimer);
+          button.singlePressTimer = undefined;
+          button.handled = true;
+          this.trigger(button, DOUBLE_PRESS);
+        } else {
+          button.handled = false;
+        }
+        button.pressedAt = Date.now();
+        break;
+      case 'HOLD':
+        if (!button.handled) {
+          button.handled = true;
+          this.trigger(button, LONG_PRESS);
+        }
+        break;
+      case 'RELEASE':
+        if (button.handled) {
+          break;
+        }
+        if (Date.now() - button.pressedAt >= LONG_PRESS_TIME) {
+          button.handled = true;
+          this.trigger(button, LONG_PRESS);
+          break;
+        }
+        button.singlePressTimer = setTimeout(() => {
+          button.singlePressTimer = undefined;
+          this.trigger(button, SINGLE_PRESS);
+        }, DOUBLE_PRESS_WINDOW);
+        break;
+    }
+  }
+
+  private trigger(button: ButtonState, event: number): void {
+    button.service
+      .getCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent)
+      .updateValue(event);
+  }
+}
@@ -1,28 +1,65 @@
-import { Service, CharacteristicValue } from 'homebridge';
+import { AdaptiveLightingController, Service, CharacteristicValue } from 'homebridge';
 import { VantageAccessory, VantageAccessoryConfig } from './base';
 import { VantagePlatform } from '../platform';
+import { VantageColor } from '../vantageInfusion';
+import { LoadBehaviorConfig } from '../config';
+import { BrightnessCurve } from '../brightnessCurve';
+
+// Color temperature range of typical DALI DT8 tunable-white drivers
+const MIN_KELVIN = 2700;
+const MAX_KELVIN = 6500;
+// Reported color temperatures closer than this to our last write are rounding, not a manual change
+const COLOR_TEMPERATURE_TOLERANCE = 5;
 
 export interface VantageLoadState {
   brightness: number;
   power: boolean;
+  hue: number;
+  saturation: number;
+  // In mireds, as HomeKit expects
+  colorTemperature: number;
+  // Brightness to restore when turned on with the "last" on-level
+  lastBrightness: number;
+}
+
+export interface VantageLoadOptions extends LoadBehaviorConfig {
+  // Set by a device override; otherwise a load with "fan" in its name is a fan
+  fan?: boolean;
+  // Maps brightness to the level sent to the load; levels pass through unchanged without one
+  curve?: BrightnessCurve;
+}
+
+function kelvinToMired(kelvin: number): number {
+  return Math.round(1000000 / kelvin);
+}
+
+function miredToKelvin(mired: number): number {
+  return Math.round(1000000 / mired);
 }
 
 export class VantageLoad extends VantageAccessory {
   private readonly lightbulbService: Service;
+  private adaptiveLighting?: AdaptiveLightingController;
   private state: VantageLoadState = {
     brightness: 100,
     power: false,
+    hue: 0,
+    saturation: 0,
+    colorTemperature: kelvinToMired(MIN_KELVIN),
+    lastBrightness: 100,
   };
 
   constructor(
     platform: VantagePlatform,
     config: VantageAccessoryConfig,
+    private readonly options: VantageLoadOptions = {},
   ) {
     super(platform, config);
 
-    // Determine if this is a fan based on name
-    const isFan = config.name.toLowerCase().includes('fan');
-    const isDimmer = config.type === 'dimmer';
+    const isFan = this.isFan();
+    const isColor = config.type === 'rgb';
+    const isTunable = config.type === 'tunable';
+    const isDimmer = config.type === 'dimmer' || isColor || isTunable;
 
     // Log the configuration
     // platform.log.debug(`Creating VantageLoad accessory: ${config.name} (VID: ${config.vid})`);
@@ -38,20 +75,11 @@ export class VantageLoad extends VantageAccessory {
         .getCharacteristic(platform.Characteristic.On)
         .onGet(() => {
           // platform.log.debug(`Getting power for ${config.name}: ${this.state.power}`);
-          return this.state.power;
+          return this.readState(this.state.power);
         })
         .onSet(async (value: CharacteristicValue) => {
-          this.state.power = value as boolean;
-          if (this.state.power && this.state.brightness === 0) {
-            this.state.brightness = 100;
-          }
-
-          // platform.log.debug(`Setting power for ${config.name} to ${this.state.power ? 'ON' : 'OFF'}`);
-
-          await this.platform.infusion.setLoadLevel(
-            this.config.vid,
-            this.state.power ? this.state.brightness : 0
-          );
+          // platform.log.debug(`Setting power for ${config.name} to ${value ? 'ON' : 'OFF'}`);
+          await this.setPower(value as boolean);
         });
 
       // Add rotation speed characteristic for fans
@@ -60,18 +88,11 @@ export class VantageLoad extends VantageAccessory {
         .setProps({ minValue: 0, maxValue: 100, minStep: 25 })
         .onGet(() => {
           // platform.log.debug(`Getting rotation speed for ${config.name}: ${this.state.brightness}`);
-          return this.state.brightness;
+          return this.readState(this.state.brightness);
         })
         .onSet(async (value: CharacteristicValue) => {
-          this.state.brightness = value as number;
-          this.state.power = this.state.brightness > 0;
-
-          // platform.log.debug(`Setting rotation speed for ${config.name} to ${this.state.brightness}`);
-
-          await this.platform.infusion.setLoadLevel(
-            this.config.vid,
-            this.state.brightness
-          );
+          // platform.log.debug(`Setting rotation speed for ${config.name} to ${value}`);
+          await this.setLevel('set speed', value as number);
         });
     } else {
       // Create a lightbulb service
@@ -82,20 +103,11 @@ export class VantageLoad extends VantageAccessory {
         .getCharacteristic(platform.Characteristic.On)
         .onGet(() => {
           // platform.log.debug(`Getting power for ${config.name}: ${this.state.power}`);
-          return this.state.power;
+          return this.readState(this.state.power);
         })
         .onSet(async (value: CharacteristicValue) => {
-          this.state.power = value as boolean;
-          if (this.state.power && this.state.brightness === 0) {
-            this.state.brightness = 100;
-          }
-
-          // platform.log.debug(`Setting power for ${config.name} to ${this.state.power ? 'ON' : 'OFF'}`);
-
-          await this.platform.infusion.setLoadLevel(
-            this.config.vid,
-            this.state.power ? this.state.brightness : 0
-          );
+          // platform.log.debug(`Setting power for ${config.name} to ${value ? 'ON' : 'OFF'}`);
+          await this.setPower(value as boolean);
         });
 
       // Add brightness characteristic for dimmable lights
@@ -112,19 +124,57 @@ export class VantageLoad extends VantageAccessory {
           })
           .onGet(() => {
             // platform.log.debug(`Getting brightness for ${config.name}: ${this.state.brightness}`);
-            return this.state.brightness;
+            return this.readState(this.state.brightness);
           })
           .onSet(async (value: CharacteristicValue) => {
-            this.state.brightness = value as number;
-            this.state.power = this.state.brightness > 0;
+            // platform.log.debug(`Setting brightness for ${config.name} to ${value}`);
+            await this.setLevel('set brightness', value as number);
+          });
+      }
 
-            // platform.log.debug(`Setting brightness for ${config.name} to ${this.state.brightness}`);
+      // Color loads take hue and saturation through the RGBLoad interface
+      if (isColor) {
+        this.lightbulbService
+          .getCharacteristic(platform.Characteristic.Hue)
+          .onGet(() => this.readState(this.state.hue))
+          .onSet(async (value: CharacteristicValue) => {
+            const rollback = this.changeState(this.state, { hue: value as number });
+            await this.runCommand('set hue', () => this.platform.infusion.setLoadColor(
+              this.config.vid,
+              this.state.hue,
+              this.state.saturation
+            ), rollback);
+          });
+
+        this.lightbulbService
+          .getCharacteristic(platform.Characteristic.Saturation)
+          .onGet(() => this.readState(this.state.saturation))
+          .onSet(async (value: CharacteristicValue) => {
+            const rollback = this.changeState(this.state, { saturation: value as number });
+            await this.runCommand('set saturation', () => this.platform.infusion.setLoadColor(
+              this.config.vid,
+              this.state.hue,
+              this.state.saturation
+            ), rollback);
+          });
+      }
 
-            await this.platform.infusion.setLoadLevel(
+      // Tunable-white loads take a color temperature and follow Adaptive Lighting
+      if (isTunable) {
+        this.lightbulbService
+          .getCharacteristic(platform.Characteristic.ColorTemperature)
+          .setProps({ minValue: kelvinToMired(MAX_KELVIN), maxValue: kelvinToMired(MIN_KELVIN) })
+          .onGet(() => this.readState(this.state.colorTemperature))
+          .onSet(async (value: CharacteristicValue) => {
+            const rollback = this.changeState(this.state, { colorTemperature: value as number });
+            await this.runCommand('set color temperature', () => this.platform.infusion.setColorTemperature(
               this.config.vid,
-              this.state.brightness
-            );
+              miredToKelvin(this.state.colorTemperature)
+            ), rollback);
           });
+
+        this.adaptiveLighting = new platform.api.hap.AdaptiveLightingController(this.lightbulbService);
+        this.controllers.push(this.adaptiveLighting);
       }
     }
 
@@ -141,19 +191,39 @@ export class VantageLoad extends VantageAccessory {
     });
 
     // Get initial state
-    this.platform.infusion.getLoadStatus(this.config.vid);
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.platform.infusion.getLoadStatus(this.config.vid));
+    if (this.config.type === 'rgb') {
+      this.requestState(this.platform.infusion.getLoadColor(this.config.vid));
+    }
+    if (this.config.type === 'tunable') {
+      this.requestState(this.platform.infusion.getColorTemperature(this.config.vid));
+    }
   }
 
   getModel(): string {
-    if (this.config.name.toLowerCase().includes('fan')) {
+    if (this.isFan()) {
       return 'Fan';
     }
+    if (this.config.type === 'rgb') {
+      return 'Color Light';
+    }
+    if (this.config.type === 'tunable') {
+      return 'Tunable White Light';
+    }
     return this.config.type === 'dimmer' ? 'Dimmable Light' : 'Light';
   }
 
-  updateState(brightness: number): void {
+  updateState(level: number): void {
+    const brightness = this.options.curve ? this.options.curve.toBrightness(level) : level;
     this.state.brightness = brightness;
     this.state.power = brightness > 0;
+    if (brightness > 0) {
+      this.state.lastBrightness = brightness;
+    }
 
     // this.platform.log.debug(`Updating state for ${this.config.name}: brightness=${brightness}, power=${this.state.power}`);
 
@@ -162,9 +232,8 @@ export class VantageLoad extends VantageAccessory {
       .getCharacteristic(this.platform.Characteristic.On)
       .updateValue(this.state.power);
 
-    // Determine if this is a fan based on name
-    const isFan = this.config.name.toLowerCase().includes('fan');
-    const isDimmer = this.config.type === 'dimmer';
+    const isFan = this.isFan();
+    const isDimmer = ['dimmer', 'rgb', 'tunable'].includes(this.config.type);
 
     // Update the brightness/rotation speed characteristic if it exists
     if (isFan) {
@@ -183,4 +252,93 @@ export class VantageLoad extends VantageAccessory {
       }
     }
   }
+
+  // Also used by area switches, so the load's on-level and fade apply there too
+  async setPower(on: boolean): Promise<void> {
+    const previous = this.state.power ? this.state.brightness : 0;
+
+    if (!on || previous > 0) {
+      const rollback = this.changeState(this.state, { power: on });
+      await this.runCommand('set power', () => this.rampTo(on ? this.state.brightness : 0, previous), rollback);
+      return;
+    }
+
+    let brightness: number;
+    switch (this.options.onLevel ?? 'last') {
+      case 'preset': {
+        // The level arrives with the controller's status update
+        const rollback = this.changeState(this.state, { power: true });
+        await this.runCommand('set power', () => this.platform.infusion.turnOnLoad(this.config.vid), rollback);
+        return;
+      }
+      case 'fixed':
+        brightness = this.options.fixedLevel ?? 100;
+        break;
+      default:
+        brightness = this.state.lastBrightness;
+    }
+    const rollback = this.changeState(this.state, { power: true, brightness });
+    await this.runCommand('set power', () => this.rampTo(brightness, previous), rollback);
+  }
+
+  private async setLevel(description: string, level: number): Promise<void> {
+    const previous = this.state.power ? this.state.brightness : 0;
+    const rollback = this.changeState(this.state, level > 0
+      ? { brightness: level, power: true, lastBrightness: level }
+      : { brightness: level, power: false });
+
+    await this.runCommand(description, () => this.rampTo(level, previous), rollback);
+  }
+
+  // Fading up and down can take different times; the instant mode skips the fade
+  private rampTo(brightness: number, previous: number): Promise<void> {
+    const level = this.options.curve ? this.options.curve.toLevel(brightness) : brightness;
+    if (this.options.rampMode === 'instant') {
+      return this.platform.infusion.setLoadLevelInstant(this.config.vid, level);
+    }
+    const time = brightness > previous ? this.options.rampUpTime : this.options.rampDownTime;
+    return this.platform.infusion.setLoadLevel(this.config.vid, level, time ?? 1);
+  }
+
+  // Options are not assigned yet when the base class asks for the model
+  private isFan(): boolean {
+    return this.options?.fan ?? this.config.name.toLowerCase().includes('fan');
+  }
+
+  updateColor(color: VantageColor): void {
+    if (this.config.type !== 'rgb') {
+      return;
+    }
+
+    this.state.hue = color.hue;
+    this.state.saturation = color.saturation;
+
+    this.lightbulbService
+      .getCharacteristic(this.platform.Characteristic.Hue)
+      .updateValue(this.state.hue);
+    this.lightbulbService
+      .getCharacteristic(this.platform.Characteristic.Saturation)
+      .updateValue(this.state.saturation);
+  }
+
+  updateColorTemperature(kelvin: number): void {
+    if (this.config.type !== 'tunable') {
+      return;
+    }
+
+    const mired = kelvinToMired(Math.min(MAX_KELVIN, Math.max(MIN_KELVIN, kelvin)));
+
+    // A change we did not make came from a keypad or Vantage programming, which
+    // HomeKit expects to end Adaptive Lighting
+    if (this.adaptiveLighting?.isAdaptiveLightingActive() &&
+        Math.abs(mired - this.state.colorTemperature) > COLOR_TEMPERATURE_TOLERANCE) {
+      this.platform.log.debug(`Color temperature of ${this.config.name} changed outside HomeKit; disabling Adaptive Lighting`);
+      this.adaptiveLighting.disableAdaptiveLighting();
+    }
+
+    this.state.colorTemperature = mired;
+    this.lightbulbService
+      .getCharacteristic(this.platform.Characteristic.ColorTemperature)
+      .updateValue(this.state.colorTemperature);
+  }
 }
@@ -2,6 +2,8 @@ import { Service, CharacteristicValue } from 'homebridge';
 import { VantageAccessory, VantageAccessoryConfig } from './base';
 import { VantagePlatform } from '../platform';
 
+export type VantageSwitchServiceType = 'switch' | 'outlet' | 'valve';
+
 export interface VantageSwitchState {
   power: boolean;
 }
@@ -15,37 +17,95 @@ export class VantageSwitch extends VantageAccessory {
   constructor(
     platform: VantagePlatform,
     config: VantageAccessoryConfig,
+    private readonly serviceType: VantageSwitchServiceType = 'switch',
   ) {
     super(platform, config);
 
-    this.switchService = new platform.Service.Switch(config.name);
+    if (serviceType === 'valve') {
+      // A valve is opened with Active and reports flow through InUse
+      this.switchService = new platform.Service.Valve(config.name);
 
-    this.switchService
-      .getCharacteristic(platform.Characteristic.On)
-      .onGet(() => this.state.power)
-      .onSet(async (value: CharacteristicValue) => {
-        this.state.power = value as boolean;
-        await this.platform.infusion.setLoadLevel(
-          this.config.vid,
-          this.state.power ? 100 : 0
-        );
-      });
+      this.switchService
+        .getCharacteristic(platform.Characteristic.ValveType)
+        .updateValue(platform.Characteristic.ValveType.GENERIC_VALVE);
+
+      this.switchService
+        .getCharacteristic(platform.Characteristic.Active)
+        .onGet(() => this.readState(this.valveActive()))
+        .onSet(async (value: CharacteristicValue) => {
+          await this.setPower(value === platform.Characteristic.Active.ACTIVE);
+        });
+
+      this.switchService
+        .getCharacteristic(platform.Characteristic.InUse)
+        .onGet(() => this.readState(this.valveInUse()));
+    } else {
+      this.switchService = serviceType === 'outlet'
+        ? new platform.Service.Outlet(config.name)
+        : new platform.Service.Switch(config.name);
+
+      this.switchService
+        .getCharacteristic(platform.Characteristic.On)
+        .onGet(() => this.readState(this.state.power))
+        .onSet(async (value: CharacteristicValue) => {
+          await this.setPower(value as boolean);
+        });
+    }
 
     this.services.push(this.switchService);
 
     // Get initial state
-    this.platform.infusion.getLoadStatus(this.config.vid);
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.platform.infusion.getLoadStatus(this.config.vid));
   }
 
   getModel(): string {
-    return 'Switch';
+    switch (this.serviceType) {
+      case 'outlet':
+        return 'Outlet';
+      case 'valve':
+        return 'Valve';
+      default:
+        return 'Switch';
+    }
   }
 
   updateState(isOn: boolean): void {
     this.state.power = isOn;
-    
+
+    if (this.serviceType === 'valve') {
+      this.switchService
+        .getCharacteristic(this.platform.Characteristic.Active)
+        .updateValue(this.valveActive());
+      this.switchService
+        .getCharacteristic(this.platform.Characteristic.InUse)
+        .updateValue(this.valveInUse());
+      return;
+    }
+
     this.switchService
       .getCharacteristic(this.platform.Characteristic.On)
       .updateValue(this.state.power);
   }
-} 
\ No newline at end of file
+
+  private async setPower(on: boolean): Promise<void> {
+    const rollback = this.changeState(this.state, { power: on });
+    await this.runCommand('set power', () => this.platform.infusion.setLoadLevel(
+      this.config.vid,
+      this.state.power ? 100 : 0
+    ), rollback);
+  }
+
+  private valveActive(): number {
+    const { ACTIVE, INACTIVE } = this.platform.Characteristic.Active;
+    return this.state.power ? ACTIVE : INACTIVE;
+  }
+
+  private valveInUse(): number {
+    const { IN_USE, NOT_IN_USE } = this.platform.Characteristic.InUse;
+    return this.state.power ? IN_USE : NOT_IN_USE;
+  }
+}
@@ -0,0 +1,58 @@
+import { Service, CharacteristicValue } from 'homebridge';
+import { VantageAccessory, VantageAccessoryConfig } from './base';
+import { VantagePlatform } from '../platform';
+
+export interface VantageTaskState {
+  running: boolean;
+}
+
+export class VantageTask extends VantageAccessory {
+  private readonly switchService: Service;
+  private state: VantageTaskState = {
+    running: false,
+  };
+
+  constructor(
+    platform: VantagePlatform,
+    config: VantageAccessoryConfig,
+  ) {
+    super(platform, config);
+
+    this.switchService = new platform.Service.Switch(config.name);
+
+    this.switchService
+      .getCharacteristic(platform.Characteristic.On)
+      .onGet(() => this.readState(this.state.running))
+      .onSet(async (value: CharacteristicValue) => {
+        const rollback = this.changeState(this.state, { running: value as boolean });
+        await this.runCommand(
+          this.state.running ? 'start task' : 'stop task',
+          () => this.state.running
+            ? this.platform.infusion.startTask(this.config.vid)
+            : this.platform.infusion.stopTask(this.config.vid),
+          rollback,
+        );
+      });
+
+    this.services.push(this.switchService);
+
+    // Get initial state
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.platform.infusion.getTaskState(this.config.vid));
+  }
+
+  getModel(): string {
+    return 'Task';
+  }
+
+  updateState(running: boolean): void {
+    this.state.running = running;
+
+    this.switchService
+      .getCharacteristic(this.platform.Characteristic.On)
+      .updateValue(this.state.running);
+  }
+}
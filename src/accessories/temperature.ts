@@ -0,0 +1,50 @@
+import { Service } from 'homebridge';
+import { VantageAccessory, VantageAccessoryConfig } from './base';
+import { VantagePlatform } from '../platform';
+
+export interface VantageTemperatureState {
+  temperature: number;
+}
+
+export class VantageTemperatureSensor extends VantageAccessory {
+  private readonly sensorService: Service;
+  private state: VantageTemperatureState = {
+    temperature: 0,
+  };
+
+  constructor(
+    platform: VantagePlatform,
+    config: VantageAccessoryConfig,
+  ) {
+    super(platform, config);
+
+    this.sensorService = new platform.Service.TemperatureSensor(config.name);
+
+    // The HomeKit default range stops at freezing, too narrow for outdoor sensors
+    this.sensorService
+      .getCharacteristic(platform.Characteristic.CurrentTemperature)
+      .setProps({ minValue: -50, maxValue: 100 })
+      .onGet(() => this.readState(this.state.temperature));
+
+    this.services.push(this.sensorService);
+
+    // Get initial state
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.platform.infusion.getTemperature(this.config.vid));
+  }
+
+  getModel(): string {
+    return 'Temperature Sensor';
+  }
+
+  updateTemperature(temperature: number): void {
+    this.state.temperature = temperature;
+
+    this.sensorService
+      .getCharacteristic(this.platform.Characteristic.CurrentTemperature)
+      .updateValue(this.state.temperature);
+  }
+}
@@ -1,6 +1,7 @@
 import { Service, CharacteristicValue } from 'homebridge';
 import { VantageAccessory, VantageAccessoryConfig } from './base';
 import { VantagePlatform } from '../platform';
+import { ThermostatSetpoint } from '../vantageInfusion';
 
 export interface VantageThermostatState {
   currentTemperature: number;
@@ -10,23 +11,44 @@ export interface VantageThermostatState {
   heatingThreshold: number;
   coolingThreshold: number;
   temperatureDisplayUnits: number;
+  fanOn: boolean;
+  hold: boolean;
+  humidity: number;
 }
 
+export interface VantageThermostatOptions {
+  // Only thermostats wired to a humidity sensor report indoor humidity
+  humidity?: boolean;
+}
+
+// The host protocol does not report setpoint limits, so allow the range a residential
+// thermostat can be set to (41-95 °F); HAP's own defaults cap the heat setpoint at 25 °C
+const SETPOINT_RANGE = { minValue: 5, maxValue: 35 };
+
 export class VantageThermostat extends VantageAccessory {
   private readonly thermostatService: Service;
+  private readonly fanService: Service;
+  private readonly holdService: Service;
+  private readonly humidityService?: Service;
+  // Until the controller reports what the HVAC unit is doing, the current state is estimated
+  private hasRunningState = false;
   private state: VantageThermostatState = {
     currentTemperature: 0,
-    targetTemperature: 0,
+    targetTemperature: 20,
     currentHeatingCoolingState: 0,
     targetHeatingCoolingState: 0,
-    heatingThreshold: 0,
-    coolingThreshold: 0,
+    heatingThreshold: 20,
+    coolingThreshold: 24,
     temperatureDisplayUnits: 1,
+    fanOn: false,
+    hold: false,
+    humidity: 0,
   };
 
   constructor(
     platform: VantagePlatform,
     config: VantageAccessoryConfig,
+    options: VantageThermostatOptions = {},
   ) {
     super(platform, config);
 
@@ -35,52 +57,131 @@ export class VantageThermostat extends VantageAccessory {
     // Current temperature
     this.thermostatService
       .getCharacteristic(platform.Characteristic.CurrentTemperature)
-      .onGet(() => this.state.currentTemperature);
+      .onGet(() => this.readState(this.state.currentTemperature));
 
     // Current heating/cooling state
     this.thermostatService
       .getCharacteristic(platform.Characteristic.CurrentHeatingCoolingState)
-      .onGet(() => this.state.currentHeatingCoolingState);
+      .onGet(() => this.readState(this.state.currentHeatingCoolingState));
 
     // Target heating/cooling state
     this.thermostatService
       .getCharacteristic(platform.Characteristic.TargetHeatingCoolingState)
-      .onGet(() => this.state.targetHeatingCoolingState)
+      .onGet(() => this.readState(this.state.targetHeatingCoolingState))
       .onSet(async (value: CharacteristicValue) => {
-        this.state.targetHeatingCoolingState = value as number;
-        await this.platform.infusion.setThermostatMode(
+        const rollback = this.changeState(this.state, { targetHeatingCoolingState: value as number });
+        await this.runCommand('set mode', () => this.platform.infusion.setThermostatMode(
           this.config.vid,
           this.state.targetHeatingCoolingState
-        );
+        ), rollback);
       });
 
     // Target temperature
     this.thermostatService
       .getCharacteristic(platform.Characteristic.TargetTemperature)
-      .onGet(() => this.state.targetTemperature)
+      .setProps(SETPOINT_RANGE)
+      .onGet(() => this.readState(this.state.targetTemperature))
+      .onSet(async (value: CharacteristicValue) => {
+        await this.setTargetTemperature(value as number);
+      });
+
+    // Heat and cool setpoints, edited together in AUTO mode
+    this.thermostatService
+      .getCharacteristic(platform.Characteristic.HeatingThresholdTemperature)
+      .setProps(SETPOINT_RANGE)
+      .onGet(() => this.readState(this.state.heatingThreshold))
       .onSet(async (value: CharacteristicValue) => {
-        this.state.targetTemperature = value as number;
-        await this.platform.infusion.setThermostatTemperature(
+        const rollback = this.changeState(this.state, { heatingThreshold: value as number });
+        await this.runCommand('set heat setpoint', () => this.platform.infusion.setThermostatSetpoint(
           this.config.vid,
-          this.state.targetTemperature,
-          this.state.targetHeatingCoolingState,
-          this.state.heatingThreshold,
+          'HEAT',
+          this.state.heatingThreshold
+        ), rollback);
+      });
+
+    this.thermostatService
+      .getCharacteristic(platform.Characteristic.CoolingThresholdTemperature)
+      .setProps(SETPOINT_RANGE)
+      .onGet(() => this.readState(this.state.coolingThreshold))
+      .onSet(async (value: CharacteristicValue) => {
+        const rollback = this.changeState(this.state, { coolingThreshold: value as number });
+        await this.runCommand('set cool setpoint', () => this.platform.infusion.setThermostatSetpoint(
+          this.config.vid,
+          'COOL',
           this.state.coolingThreshold
-        );
+        ), rollback);
       });
 
-    // Temperature display units
+    // Temperature display units follow the controller; HomeKit values are always Celsius
+    const { CELSIUS, FAHRENHEIT } = platform.Characteristic.TemperatureDisplayUnits;
+    this.state.temperatureDisplayUnits = platform.infusion.temperatureUnits === 'F' ? FAHRENHEIT : CELSIUS;
     this.thermostatService
       .getCharacteristic(platform.Characteristic.TemperatureDisplayUnits)
-      .onGet(() => this.state.temperatureDisplayUnits)
-      .onSet((value: CharacteristicValue) => {
-        this.state.temperatureDisplayUnits = value as number;
-      });
+      .onGet(() => this.readState(this.state.temperatureDisplayUnits))
+      .onSet(() => {
+        this.platform.log.debug(`${this.config.name} shows temperatures in the controller's unit; ignoring display unit change`);
+        setImmediate(() => this.thermostatService
+          .getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits)
+          .updateValue(this.state.temperatureDisplayUnits));
+      })
+      .updateValue(this.state.temperatureDisplayUnits);
 
     this.services.push(this.thermostatService);
 
+    // Fan: manual runs it continuously, auto only while heating or cooling
+    this.fanService = new platform.Service.Fanv2(`${config.name} Fan`, 'fan');
+
+    this.fanService
+      .getCharacteristic(platform.Characteristic.Active)
+      .onGet(() => this.readState(this.fanActive()))
+      .onSet(async (value: CharacteristicValue) => {
+        await this.setFan(value === platform.Characteristic.Active.ACTIVE);
+      });
+
+    this.fanService
+      .getCharacteristic(platform.Characteristic.TargetFanState)
+      .onGet(() => this.readState(this.fanTargetState()))
+      .onSet(async (value: CharacteristicValue) => {
+        await this.setFan(value === platform.Characteristic.TargetFanState.MANUAL);
+      });
+
+    this.services.push(this.fanService);
+
+    // Hold keeps the current setpoints instead of following the schedule
+    this.holdService = new platform.Service.Switch(`${config.name} Hold`, 'hold');
+
+    this.holdService
+      .getCharacteristic(platform.Characteristic.On)
+      .onGet(() => this.readState(this.state.hold))
+      .onSet(async (value: CharacteristicValue) => {
+        const rollback = this.changeState(this.state, { hold: value as boolean });
+        await this.runCommand('set hold', () => this.platform.infusion.setThermostatHold(this.config.vid, this.state.hold),
+          rollback);
+      });
+
+    this.services.push(this.holdService);
+
+    if (options.humidity) {
+      this.humidityService = new platform.Service.HumiditySensor(`${config.name} Humidity`, 'humidity');
+
+      this.humidityService
+        .getCharacteristic(platform.Characteristic.CurrentRelativeHumidity)
+        .onGet(() => this.readState(this.state.humidity));
+
+      this.services.push(this.humidityService);
+    }
+
     // Get initial state
-    this.platform.infusion.getThermostatState(this.config.vid);
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.platform.infusion.getThermostatState(this.config.vid));
+    this.requestState(this.platform.infusion.getThermostatFan(this.config.vid));
+    this.requestState(this.platform.infusion.getThermostatHold(this.config.vid));
+    if (this.humidityService) {
+      this.requestState(this.platform.infusion.getThermostatHumidity(this.config.vid));
+    }
   }
 
   getModel(): string {
@@ -89,22 +190,181 @@ export class VantageThermostat extends VantageAccessory {
 
   updateTemperature(temperature: number): void {
     this.state.currentTemperature = temperature;
-    
+
     this.thermostatService
       .getCharacteristic(this.platform.Characteristic.CurrentTemperature)
       .updateValue(this.state.currentTemperature);
+
+    this.estimateRunningState();
   }
 
   updateMode(mode: number): void {
-    this.state.currentHeatingCoolingState = mode;
     this.state.targetHeatingCoolingState = mode;
-    
-    this.thermostatService
-      .getCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState)
-      .updateValue(this.state.currentHeatingCoolingState);
-      
+
     this.thermostatService
       .getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState)
       .updateValue(this.state.targetHeatingCoolingState);
+
+    this.updateTargetTemperature();
+    this.estimateRunningState();
   }
-} 
\ No newline at end of file
+
+  updateSetpoint(setpoint: ThermostatSetpoint, temperature: number): void {
+    if (setpoint === 'HEAT') {
+      this.state.heatingThreshold = temperature;
+      this.thermostatService
+        .getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature)
+        .updateValue(this.state.heatingThreshold);
+    } else {
+      this.state.coolingThreshold = temperature;
+      this.thermostatService
+        .getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature)
+        .updateValue(this.state.coolingThreshold);
+    }
+
+    this.updateTargetTemperature();
+    this.estimateRunningState();
+  }
+
+  updateRunningState(state: number): void {
+    this.hasRunningState = true;
+    this.setCurrentState(state);
+  }
+
+  updateFan(on: boolean): void {
+    this.state.fanOn = on;
+
+    this.fanService
+      .getCharacteristic(this.platform.Characteristic.Active)
+      .updateValue(this.fanActive());
+    this.fanService
+      .getCharacteristic(this.platform.Characteristic.TargetFanState)
+      .updateValue(this.fanTargetState());
+  }
+
+  updateHold(hold: boolean): void {
+    this.state.hold = hold;
+
+    this.holdService
+      .getCharacteristic(this.platform.Characteristic.On)
+      .updateValue(this.state.hold);
+  }
+
+  updateHumidity(humidity: number): void {
+    if (!this.humidityService) {
+      return;
+    }
+
+    this.state.humidity = Math.min(100, Math.max(0, humidity));
+    this.humidityService
+      .getCharacteristic(this.platform.Characteristic.CurrentRelativeHumidity)
+      .updateValue(this.state.humidity);
+  }
+
+  // HEAT and COOL move their own setpoint; AUTO shows the middle of the band, so moving it shifts both
+  private async setTargetTemperature(target: number): Promise<void> {
+    const { HEAT, COOL, AUTO } = this.platform.Characteristic.TargetHeatingCoolingState;
+    const vid = this.config.vid;
+
+    switch (this.state.targetHeatingCoolingState) {
+      case HEAT: {
+        const rollback = this.changeState(this.state, { targetTemperature: target, heatingThreshold: target });
+        await this.runCommand('set temperature', () => this.platform.infusion.setThermostatSetpoint(
+          vid, 'HEAT', this.state.heatingThreshold), rollback);
+        break;
+      }
+      case COOL: {
+        const rollback = this.changeState(this.state, { targetTemperature: target, coolingThreshold: target });
+        await this.runCommand('set temperature', () => this.platform.infusion.setThermostatSetpoint(
+          vid, 'COOL', this.state.coolingThreshold), rollback);
+        break;
+      }
+      case AUTO: {
+        const { heatingThreshold, coolingThreshold } = this.state;
+        const { minValue, maxValue } = SETPOINT_RANGE;
+        const offset = Math.min(maxValue - coolingThreshold,
+          Math.max(minValue - heatingThreshold, target - (heatingThreshold + coolingThreshold) / 2));
+        const rollback = this.changeState(this.state, {
+          targetTemperature: target,
+          heatingThreshold: heatingThreshold + offset,
+          coolingThreshold: coolingThreshold + offset,
+        });
+        await this.runCommand('set temperature', () => Promise.all([
+          this.platform.infusion.setThermostatSetpoint(vid, 'HEAT', this.state.heatingThreshold),
+          this.platform.infusion.setThermostatSetpoint(vid, 'COOL', this.state.coolingThreshold),
+        ]), rollback);
+        break;
+      }
+      default:
+        // Off has no setpoint to move; keep showing the last one
+        setImmediate(() => this.thermostatService
+          .getCharacteristic(this.platform.Characteristic.TargetTemperature)
+          .updateValue(this.state.targetTemperature));
+    }
+  }
+
+  private async setFan(on: boolean): Promise<void> {
+    const rollback = this.changeState(this.state, { fanOn: on });
+    await this.runCommand('set fan mode', () => this.platform.infusion.setThermostatFan(this.config.vid, this.state.fanOn),
+      rollback);
+  }
+
+  private fanActive(): number {
+    const { ACTIVE, INACTIVE } = this.platform.Characteristic.Active;
+    return this.state.fanOn ? ACTIVE : INACTIVE;
+  }
+
+  private fanTargetState(): number {
+    const { MANUAL, AUTO } = this.platform.Characteristic.TargetFanState;
+    return this.state.fanOn ? MANUAL : AUTO;
+  }
+
+  // TargetTemperature shows the setpoint the current mode works towards
+  private updateTargetTemperature(): void {
+    const { HEAT, COOL, AUTO } = this.platform.Characteristic.TargetHeatingCoolingState;
+    switch (this.state.targetHeatingCoolingState) {
+      case HEAT:
+        this.state.targetTemperature = this.state.heatingThreshold;
+        break;
+      case COOL:
+        this.state.targetTemperature = this.state.coolingThreshold;
+        break;
+      case AUTO:
+        this.state.targetTemperature = (this.state.heatingThreshold + this.state.coolingThreshold) / 2;
+        break;
+      default:
+        return;
+    }
+
+    this.thermostatService
+      .getCharacteristic(this.platform.Characteristic.TargetTemperature)
+      .updateValue(this.state.targetTemperature);
+  }
+
+  private estimateRunningState(): void {
+    if (this.hasRunningState) {
+      return;
+    }
+
+    const { OFF, HEAT, COOL } = this.platform.Characteristic.CurrentHeatingCoolingState;
+    const { HEAT: HEAT_MODE, COOL: COOL_MODE, AUTO } = this.platform.Characteristic.TargetHeatingCoolingState;
+    const mode = this.state.targetHeatingCoolingState;
+    const { currentTemperature, heatingThreshold, coolingThreshold } = this.state;
+
+    if ((mode === HEAT_MODE || mode === AUTO) && currentTemperature < heatingThreshold) {
+      this.setCurrentState(HEAT);
+    } else if ((mode === COOL_MODE || mode === AUTO) && currentTemperature > coolingThreshold) {
+      this.setCurrentState(COOL);
+    } else {
+      this.setCurrentState(OFF);
+    }
+  }
+
+  private setCurrentState(state: number): void {
+    this.state.currentHeatingCoolingState = state;
+
+    this.thermostatService
+      .getCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState)
+      .updateValue(this.state.currentHeatingCoolingState);
+  }
+}
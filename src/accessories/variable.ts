@@ -0,0 +1,122 @@
+import { Service, CharacteristicValue } from 'homebridge';
+import { VantageAccessory, VantageAccessoryConfig } from './base';
+import { VantagePlatform } from '../platform';
+
+// CurrentAmbientLightLevel rejects values outside this range
+const MIN_SENSOR_VALUE = 0.0001;
+const MAX_SENSOR_VALUE = 100000;
+
+export type VantageVariableKind = 'switch' | 'sensor' | 'value';
+
+export interface VantageVariableState {
+  value: number;
+  // Restored when a writable value is switched back on
+  lastNonZero: number;
+}
+
+/**
+ * A Vantage variable. Boolean variables become switches; numeric ones are either a
+ * read-only light sensor (which shows the raw number) or, when listed as writable, a
+ * lightbulb whose brightness is the value clamped to 0-100. HomeKit treats that lightbulb
+ * like any other light, which is why it is opt-in per variable.
+ */
+export class VantageVariable extends VantageAccessory {
+  private readonly service: Service;
+  private state: VantageVariableState = {
+    value: 0,
+    lastNonZero: 100,
+  };
+
+  constructor(
+    platform: VantagePlatform,
+    config: VantageAccessoryConfig,
+    private readonly kind: VantageVariableKind,
+  ) {
+    super(platform, config);
+
+    switch (kind) {
+      case 'switch':
+        this.service = new platform.Service.Switch(config.name);
+        this.service
+          .getCharacteristic(platform.Characteristic.On)
+          .onGet(() => this.readState(this.state.value !== 0))
+          .onSet(async (value: CharacteristicValue) => {
+            await this.writeValue(value ? 1 : 0);
+          });
+        break;
+      case 'value':
+        this.service = new platform.Service.Lightbulb(config.name);
+        this.service
+          .getCharacteristic(platform.Characteristic.On)
+          .onGet(() => this.readState(this.state.value > 0))
+          .onSet(async (value: CharacteristicValue) => {
+            // HomeKit sends On alongside Brightness; only act when it changes the value
+            if (value && this.state.value <= 0) {
+              await this.writeValue(this.state.lastNonZero);
+            } else if (!value && this.state.value > 0) {
+              await this.writeValue(0);
+            }
+          });
+        this.service
+          .getCharacteristic(platform.Characteristic.Brightness)
+          .onGet(() => this.readState(this.clamp(this.state.value, 0, 100)))
+          .onSet(async (value: CharacteristicValue) => {
+            await this.writeValue(value as number);
+          });
+        break;
+      default:
+        this.service = new platform.Service.LightSensor(config.name);
+        this.service
+          .getCharacteristic(platform.Characteristic.CurrentAmbientLightLevel)
+          .onGet(() => this.readState(this.sensorValue()));
+        break;
+    }
+
+    this.services.push(this.service);
+
+    // Get initial state
+    this.refreshState();
+  }
+
+  refreshState(): void {
+    this.requestState(this.platform.infusion.getVariable(this.config.vid));
+  }
+
+  getModel(): string {
+    return 'Variable';
+  }
+
+  updateState(value: number): void {
+    this.state.value = value;
+    if (value > 0) {
+      this.state.lastNonZero = value;
+    }
+
+    const { Characteristic } = this.platform;
+    switch (this.kind) {
+      case 'switch':
+        this.service.getCharacteristic(Characteristic.On).updateValue(value !== 0);
+        break;
+      case 'value':
+        this.service.getCharacteristic(Characteristic.On).updateValue(value > 0);
+        this.service.getCharacteristic(Characteristic.Brightness).updateValue(this.clamp(value, 0, 100));
+        break;
+      default:
+        this.service.getCharacteristic(Characteristic.CurrentAmbientLightLevel).updateValue(this.sensorValue());
+        break;
+    }
+  }
+
+  private async writeValue(value: number): Promise<void> {
+    const rollback = this.changeState(this.state, value > 0 ? { value, lastNonZero: value } : { value });
+    await this.runCommand('set variable', () => this.platform.infusion.setVariable(this.config.vid, value), rollback);
+  }
+
+  private sensorValue(): number {
+    return this.clamp(this.state.value, MIN_SENSOR_VALUE, MAX_SENSOR_VALUE);
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+  }
+}
@@ -0,0 +1,75 @@
+import { CurvePoint, CurveType } from './config';
+
+export interface BrightnessCurveConfig {
+  // Output range used for brightness 1-100; 0 stays off
+  lowTrim?: number;
+  highTrim?: number;
+  curve?: CurveType;
+  // Brightness to level pairs in percent, both increasing, for the custom curve
+  curvePoints?: CurvePoint[];
+}
+
+/**
+ * Maps HomeKit brightness to the level sent to a load and back. The curve shapes 0-100%
+ * brightness into 0-100% of the trimmed range, so the slider's low end stays visible on
+ * loads that only light up above their low trim.
+ */
+export class BrightnessCurve {
+  private readonly low: number;
+  private readonly high: number;
+  // Points of the curve as fractions, from (0, 0) to (1, 1)
+  private readonly points: [number, number][];
+
+  constructor(config: BrightnessCurveConfig = {}) {
+    this.low = config.lowTrim ?? 0;
+    this.high = config.highTrim ?? 100;
+
+    switch (config.curve) {
+      case 'square':
+        // Square law, sampled finely enough to be smooth at 1% steps
+        this.points = Array.from({ length: 101 }, (_, i): [number, number] => [i / 100, (i / 100) ** 2]);
+        break;
+      case 'custom':
+        this.points = [
+          [0, 0],
+          ...(config.curvePoints || [])
+            .filter(point => point.brightness > 0 && point.brightness < 100)
+            .map((point): [number, number] => [point.brightness / 100, point.level / 100]),
+          [1, 1],
+        ];
+        break;
+      default:
+        this.points = [[0, 0], [1, 1]];
+    }
+  }
+
+  toLevel(brightness: number): number {
+    if (brightness <= 0) {
+      return 0;
+    }
+    const fraction = interpolate(this.points, Math.min(brightness, 100) / 100);
+    return Math.round((this.low + fraction * (this.high - this.low)) * 1000) / 1000;
+  }
+
+  // Any level above off shows as at least 1%, so the load never looks off while lit
+  toBrightness(level: number): number {
+    if (level <= 0) {
+      return 0;
+    }
+    const fraction = Math.min(1, Math.max(0, (level - this.low) / (this.high - this.low)));
+    const inverse = this.points.map(([x, y]): [number, number] => [y, x]);
+    return Math.max(1, Math.round(interpolate(inverse, fraction) * 100));
+  }
+}
+
+// Linear interpolation between points sorted by x
+function interpolate(points: [number, number][], x: number): number {
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    if (x <= x1) {
+      const [x0, y0] = points[i - 1];
+      return x1 === x0 ? y1 : y0 + (x - x0) / (x1 - x0) * (y1 - y0);
+    }
+  }
+  return points[points.length - 1][1];
+}
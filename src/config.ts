@@ -1,13 +1,153 @@
 import { PlatformConfig } from 'homebridge';
 
-export interface VantagePlatformConfig extends PlatformConfig {
+export type ContactSensorType = 'contact' | 'motion' | 'occupancy' | 'leak';
+
+export const CONTACT_SENSOR_TYPES: ContactSensorType[] = ['contact', 'motion', 'occupancy', 'leak'];
+
+export interface ContactSensorConfig {
+  vid: string;
+  type: ContactSensorType;
+  // For normally-closed wiring, where an open contact means detected
+  inverted?: boolean;
+}
+
+export interface GarageDoorConfig {
+  name: string;
+  // Momentary relay load that starts and stops the door opener
+  relay: string;
+  // Dry contact closed while the door is fully closed
+  contact: string;
+  // Seconds the relay is held closed for each press
+  pulseTime?: number;
+  // Seconds the door takes to open or close fully
+  travelTime?: number;
+  // For a contact that opens when the door is closed
+  inverted?: boolean;
+}
+
+export type LoadOnLevel = 'last' | 'fixed' | 'preset';
+
+export type RampMode = 'ramp' | 'instant';
+
+// How loads fade and where they turn on; set globally and per device
+export interface LoadBehaviorConfig {
+  // Seconds to fade up and down when ramping
+  rampUpTime?: number;
+  rampDownTime?: number;
+  // Turning on from off restores the last level, goes to fixedLevel or lets the controller use its preset
+  onLevel?: LoadOnLevel;
+  fixedLevel?: number;
+  rampMode?: RampMode;
+}
+
+export const LOAD_ON_LEVELS: LoadOnLevel[] = ['last', 'fixed', 'preset'];
+
+export const RAMP_MODES: RampMode[] = ['ramp', 'instant'];
+
+export type CurveType = 'linear' | 'square' | 'custom';
+
+export const CURVE_TYPES: CurveType[] = ['linear', 'square', 'custom'];
+
+export interface CurvePoint {
+  brightness: number;
+  level: number;
+}
+
+export type DeviceServiceType = 'lightbulb' | 'fan' | 'outlet' | 'switch' | 'valve' | 'windowCovering';
+
+export const DEVICE_SERVICE_TYPES: DeviceServiceType[] = ['lightbulb', 'fan', 'outlet', 'switch', 'valve', 'windowCovering'];
+
+export interface DeviceOverrideConfig extends LoadBehaviorConfig {
+  vid: string;
+  // Used as is, without the area prefix
+  name?: string;
+  // Replaces the service chosen from the load type and name
+  service?: DeviceServiceType;
+  hidden?: boolean;
+  // Level range the load is driven in, and the curve from HomeKit brightness onto it
+  lowTrim?: number;
+  highTrim?: number;
+  curve?: CurveType;
+  curvePoints?: CurvePoint[];
+}
+
+export type FilterAction = 'include' | 'exclude';
+
+// Every criterion given must match; each is a name pattern with `*` and `?` wildcards
+export interface FilterRuleConfig {
+  action: FilterAction;
+  // Also matches devices in child areas
+  area?: string;
+  objectType?: string;
+  loadType?: string;
+  name?: string;
+}
+
+export const FILTER_CRITERIA = ['area', 'objectType', 'loadType', 'name'];
+
+export interface VantagePlatformConfig extends PlatformConfig, LoadBehaviorConfig {
   ipaddress: string;
+  commandPort?: number;
+  configPort?: number;
   username?: string;
   password?: string;
   omit?: string;
   range?: string;
   usecache?: boolean;
   debug?: boolean;
+  commandQueueMaxAge?: number;
+  writeCoalesceTime?: number;
+  tasks?: string[];
+  variables?: string[];
+  writableVariables?: string[];
+  contacts?: ContactSensorConfig[];
+  garageDoors?: GarageDoorConfig[];
+  devices?: DeviceOverrideConfig[];
+  filters?: FilterRuleConfig[];
+  areaSwitches?: boolean;
+}
+
+function validateLoadBehavior(config: LoadBehaviorConfig, subject: string): void {
+  for (const key of ['rampUpTime', 'rampDownTime']) {
+    if (config[key] !== undefined && (typeof config[key] !== 'number' || config[key] < 0)) {
+      throw new Error(`Configuration error: ${subject}${key} must be a non-negative number of seconds`);
+    }
+  }
+  if (config.onLevel !== undefined && !LOAD_ON_LEVELS.includes(config.onLevel)) {
+    throw new Error(`Configuration error: ${subject}onLevel must be one of ${LOAD_ON_LEVELS.join(', ')}`);
+  }
+  if (config.fixedLevel !== undefined &&
+      (typeof config.fixedLevel !== 'number' || config.fixedLevel < 1 || config.fixedLevel > 100)) {
+    throw new Error(`Configuration error: ${subject}fixedLevel must be a percentage from 1 to 100`);
+  }
+  if (config.rampMode !== undefined && !RAMP_MODES.includes(config.rampMode)) {
+    throw new Error(`Configuration error: ${subject}rampMode must be one of ${RAMP_MODES.join(', ')}`);
+  }
+}
+
+function validateBrightnessCurve(device: DeviceOverrideConfig, vid: string): void {
+  for (const key of ['lowTrim', 'highTrim']) {
+    if (device[key] !== undefined && (typeof device[key] !== 'number' || device[key] < 0 || device[key] > 100)) {
+      throw new Error(`Configuration error: device ${vid} ${key} must be a percentage from 0 to 100`);
+    }
+  }
+  if ((device.lowTrim ?? 0) >= (device.highTrim ?? 100)) {
+    throw new Error(`Configuration error: device ${vid} lowTrim must be below highTrim`);
+  }
+  if (device.curve !== undefined && !CURVE_TYPES.includes(device.curve)) {
+    throw new Error(`Configuration error: device ${vid} curve must be one of ${CURVE_TYPES.join(', ')}`);
+  }
+  if (device.curve === 'custom') {
+    const points = device.curvePoints;
+    const inRange = (value: unknown) => typeof value === 'number' && value > 0 && value < 100;
+    if (!Array.isArray(points) || points.length === 0 ||
+        !points.every(point => inRange(point?.brightness) && inRange(point?.level)) ||
+        !points.every((point, i) => i === 0 ||
+          (point.brightness > points[i - 1].brightness && point.level > points[i - 1].level))) {
+      throw new Error(`Configuration error: device ${vid} custom curve needs points between 0 and 100 ` +
+        'with increasing brightness and level');
+    }
+  }
 }
 
 export class ConfigValidator {
@@ -43,11 +183,127 @@ export class ConfigValidator {
       }
     }
 
+    // Validate filter rules
+    if (config.filters !== undefined) {
+      if (!Array.isArray(config.filters)) {
+        throw new Error('Configuration error: filters must be a list');
+      }
+      config.filters.forEach((rule, index) => {
+        if (rule?.action !== 'include' && rule?.action !== 'exclude') {
+          throw new Error(`Configuration error: filter rule ${index + 1} action must be include or exclude`);
+        }
+        const criteria = FILTER_CRITERIA.filter(key => rule[key] !== undefined);
+        if (criteria.length === 0) {
+          throw new Error(`Configuration error: filter rule ${index + 1} needs at least one of ${FILTER_CRITERIA.join(', ')}`);
+        }
+        if (!criteria.every(key => typeof rule[key] === 'string' && rule[key].trim())) {
+          throw new Error(`Configuration error: filter rule ${index + 1} patterns must be non-empty strings`);
+        }
+      });
+    }
+
+    // Validate controller ports
+    (['commandPort', 'configPort'] as const).forEach(key => {
+      const port = config[key];
+      if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+        throw new Error(`Configuration error: ${key} must be a port number between 1 and 65535`);
+      }
+    });
+
+    // Validate command queue age
+    if (config.commandQueueMaxAge !== undefined &&
+        (typeof config.commandQueueMaxAge !== 'number' || config.commandQueueMaxAge < 0)) {
+      throw new Error('Configuration error: commandQueueMaxAge must be a non-negative number of seconds');
+    }
+
+    if (config.writeCoalesceTime !== undefined &&
+        (typeof config.writeCoalesceTime !== 'number' || config.writeCoalesceTime < 0)) {
+      throw new Error('Configuration error: writeCoalesceTime must be a non-negative number of seconds');
+    }
+
+    // Validate load fade and on-level settings
+    validateLoadBehavior(config as VantagePlatformConfig, '');
+
+    // Validate task selection
+    if (config.tasks !== undefined &&
+        (!Array.isArray(config.tasks) || !config.tasks.every(x => typeof x === 'string' && x.trim()))) {
+      throw new Error('Configuration error: tasks must be a list of task VIDs or name patterns');
+    }
+
+    // Validate variable selection
+    for (const key of ['variables', 'writableVariables']) {
+      if (config[key] !== undefined &&
+          (!Array.isArray(config[key]) || !config[key].every(x => typeof x === 'string' && x.trim()))) {
+        throw new Error(`Configuration error: ${key} must be a list of variable VIDs or name patterns`);
+      }
+    }
+
+    // Validate contact sensor types
+    if (config.contacts !== undefined) {
+      if (!Array.isArray(config.contacts)) {
+        throw new Error('Configuration error: contacts must be a list');
+      }
+      for (const contact of config.contacts) {
+        if (!/^\d+$/.test(String(contact?.vid ?? ''))) {
+          throw new Error('Configuration error: each contact needs the VID of a dry contact');
+        }
+        if (!CONTACT_SENSOR_TYPES.includes(contact.type)) {
+          throw new Error(`Configuration error: contact ${contact.vid} type must be one of ${CONTACT_SENSOR_TYPES.join(', ')}`);
+        }
+      }
+    }
+
+    // Validate garage doors
+    if (config.garageDoors !== undefined) {
+      if (!Array.isArray(config.garageDoors)) {
+        throw new Error('Configuration error: garageDoors must be a list');
+      }
+      for (const door of config.garageDoors) {
+        if (!door?.name || !/^\d+$/.test(String(door.relay ?? '')) || !/^\d+$/.test(String(door.contact ?? ''))) {
+          throw new Error('Configuration error: each garage door needs a name, a relay VID and a contact VID');
+        }
+        for (const key of ['pulseTime', 'travelTime']) {
+          if (door[key] !== undefined && (typeof door[key] !== 'number' || door[key] <= 0)) {
+            throw new Error(`Configuration error: garage door ${door.name} ${key} must be a positive number of seconds`);
+          }
+        }
+      }
+    }
+
+    // Validate device overrides
+    if (config.devices !== undefined) {
+      if (!Array.isArray(config.devices)) {
+        throw new Error('Configuration error: devices must be a list');
+      }
+      const seen = new Set<string>();
+      for (const device of config.devices) {
+        const vid = String(device?.vid ?? '');
+        if (!/^\d+$/.test(vid)) {
+          throw new Error('Configuration error: each device override needs the VID of a device');
+        }
+        if (seen.has(vid)) {
+          throw new Error(`Configuration error: device ${vid} is overridden more than once`);
+        }
+        seen.add(vid);
+        if (device.service !== undefined && !DEVICE_SERVICE_TYPES.includes(device.service)) {
+          throw new Error(`Configuration error: device ${vid} service must be one of ${DEVICE_SERVICE_TYPES.join(', ')}`);
+        }
+        if (device.name !== undefined && (typeof device.name !== 'string' || !device.name.trim())) {
+          throw new Error(`Configuration error: device ${vid} name must be a non-empty string`);
+        }
+        validateLoadBehavior(device, `device ${vid} `);
+        validateBrightnessCurve(device, vid);
+      }
+    }
+
     return {
       ...config,
       ipaddress: config.ipaddress,
       usecache: config.usecache ?? true,
       debug: config.debug ?? false,
+      areaSwitches: config.areaSwitches ?? false,
+      commandQueueMaxAge: config.commandQueueMaxAge ?? 30,
+      writeCoalesceTime: config.writeCoalesceTime ?? 0.25,
     };
   }
 
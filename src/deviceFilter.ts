@@ -0,0 +1,78 @@
+import { FILTER_CRITERIA, FilterRuleConfig } from './config';
+import { matchesGlob } from './patterns';
+
+export interface FilterableDevice {
+  VID: string;
+  Name: string;
+  ObjectType: string;
+  LoadType?: string;
+  Area?: string;
+  // Area names from the outermost area down to the device's own
+  AreaPath?: string[];
+}
+
+export interface DeviceFilterConfig {
+  omit?: string;
+  range?: string;
+  filters?: FilterRuleConfig[];
+}
+
+/**
+ * Decides which discovered devices become accessories. The `omit` list and `range` are
+ * applied first; after that the first rule matching a device decides. A device no rule
+ * matches is included, unless there are include rules, which then act as an allow list.
+ */
+export class DeviceFilter {
+  private readonly omit: string[];
+  private readonly range?: [number, number];
+  private readonly rules: FilterRuleConfig[];
+  private readonly hasIncludeRules: boolean;
+
+  constructor(config: DeviceFilterConfig) {
+    this.omit = (config.omit || '').split(',').map(x => x.trim()).filter(x => x);
+
+    const range = (config.range || '').split(',').map(x => parseInt(x.trim()));
+    if (range.length === 2 && !isNaN(range[0]) && !isNaN(range[1])) {
+      this.range = [range[0], range[1]];
+    }
+
+    this.rules = config.filters || [];
+    this.hasIncludeRules = this.rules.some(rule => rule.action === 'include');
+  }
+
+  // Returns why a device is left out, or undefined when it is included
+  exclusionReason(device: FilterableDevice): string | undefined {
+    if (this.omit.includes(device.VID)) {
+      return 'in omit list';
+    }
+
+    const vid = parseInt(device.VID);
+    if (this.range && !isNaN(vid) && (vid < this.range[0] || vid > this.range[1])) {
+      return `outside range ${this.range[0]}-${this.range[1]}`;
+    }
+
+    const index = this.rules.findIndex(rule => matchesRule(rule, device));
+    if (index >= 0) {
+      const rule = this.rules[index];
+      return rule.action === 'exclude' ? `excluded by filter rule ${index + 1} (${describeRule(rule)})` : undefined;
+    }
+
+    return this.hasIncludeRules ? 'not matched by any include rule' : undefined;
+  }
+}
+
+function matchesRule(rule: FilterRuleConfig, device: FilterableDevice): boolean {
+  const areas = device.AreaPath?.length ? device.AreaPath : [device.Area || ''];
+
+  return (rule.area === undefined || areas.some(area => matchesGlob(area, rule.area))) &&
+    (rule.objectType === undefined || matchesGlob(device.ObjectType, rule.objectType)) &&
+    (rule.loadType === undefined || matchesGlob(device.LoadType || '', rule.loadType)) &&
+    (rule.name === undefined || matchesGlob(device.Name, rule.name));
+}
+
+function describeRule(rule: FilterRuleConfig): string {
+  return FILTER_CRITERIA
+    .filter(key => rule[key] !== undefined)
+    .map(key => `${key} "${rule[key]}"`)
+    .join(', ');
+}
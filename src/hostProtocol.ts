@@ -0,0 +1,228 @@
+/**
+ * Framing and parsing for the InFusion host command protocol spoken on port 3001.
+ *
+ * The controller sends newline-terminated text lines: `R:` lines answer a command we sent,
+ * `S:` lines are unsolicited status updates and `EL:` lines come from the event log.
+ */
+
+interface BaseMessage {
+  command: string;
+  args: string[];
+  raw: string;
+}
+
+export interface LoadStatusMessage extends BaseMessage {
+  type: 'S:LOAD' | 'R:GETLOAD';
+  vid: string;
+  level: number;
+}
+
+export interface BlindStatusMessage extends BaseMessage {
+  type: 'S:BLIND' | 'R:GETBLIND';
+  vid: string;
+  position: number;
+}
+
+export interface TemperatureStatusMessage extends BaseMessage {
+  type: 'S:TEMP';
+  vid: string;
+  temperature: number;
+}
+
+export interface InvokeResponseMessage extends BaseMessage {
+  type: 'R:INVOKE';
+  vid: string;
+  result: string;
+  method: string;
+  params: string[];
+}
+
+export interface ObjectStatusMessage extends BaseMessage {
+  type: 'S:STATUS';
+  vid: string;
+  method: string;
+  params: string[];
+}
+
+export interface ThermostatModeMessage extends BaseMessage {
+  type: 'S:THERMOP' | 'R:GETTHERMOP' | 'R:THERMOP';
+  vid: string;
+  mode: string;
+}
+
+export interface ThermostatFanMessage extends BaseMessage {
+  type: 'S:THERMFAN' | 'R:GETTHERMFAN' | 'R:THERMFAN';
+  vid: string;
+  fan: string;
+}
+
+export interface ThermostatTemperatureMessage extends BaseMessage {
+  type: 'S:THERMTEMP' | 'R:THERMTEMP';
+  vid: string;
+  setpoint: string;
+  temperature: number;
+}
+
+export interface ButtonEventMessage extends BaseMessage {
+  type: 'S:BTN';
+  vid: string;
+  action: string;
+}
+
+export interface TaskStatusMessage extends BaseMessage {
+  type: 'S:TASK';
+  vid: string;
+  running: boolean;
+}
+
+export interface VariableStatusMessage extends BaseMessage {
+  type: 'S:VARIABLE' | 'R:GETVARIABLE' | 'R:VARIABLE';
+  vid: string;
+  value: string;
+}
+
+export interface ErrorResponseMessage extends BaseMessage {
+  type: 'R:ERROR';
+  code: number;
+  message: string;
+}
+
+export interface UnknownMessage extends BaseMessage {
+  type: 'unknown';
+}
+
+export type VantageMessage =
+  | LoadStatusMessage
+  | BlindStatusMessage
+  | TemperatureStatusMessage
+  | InvokeResponseMessage
+  | ObjectStatusMessage
+  | ThermostatModeMessage
+  | ThermostatFanMessage
+  | ThermostatTemperatureMessage
+  | ButtonEventMessage
+  | TaskStatusMessage
+  | VariableStatusMessage
+  | ErrorResponseMessage
+  | UnknownMessage;
+
+/**
+ * Reassembles complete lines from raw socket chunks. A line split across two `data`
+ * events is held back until its terminator arrives; both `\n` and `\r\n` are accepted.
+ */
+export class LineFramer {
+  private buffer = '';
+
+  push(chunk: Buffer | string): string[] {
+    this.buffer += chunk.toString();
+
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+
+    return lines
+      .map(line => line.replace(/\r$/, ''))
+      .filter(line => line.trim().length > 0);
+  }
+
+  reset(): void {
+    this.buffer = '';
+  }
+}
+
+export function parseMessage(line: string): VantageMessage {
+  const raw = line.trim();
+  const [command, ...args] = raw.split(/\s+/);
+  const base = { command, args, raw };
+  const unknown: UnknownMessage = { ...base, type: 'unknown' };
+
+  const errorMatch = /^R:ERROR(?::(\d+))?$/.exec(command);
+  if (errorMatch) {
+    return {
+      ...base,
+      type: 'R:ERROR',
+      code: errorMatch[1] ? parseInt(errorMatch[1]) : 0,
+      message: args.join(' '),
+    };
+  }
+
+  switch (command) {
+    case 'S:LOAD':
+    case 'R:GETLOAD': {
+      const level = parseFloat(args[1]);
+      if (!args[0] || isNaN(level)) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], level };
+    }
+    case 'S:BLIND':
+    case 'R:GETBLIND': {
+      const position = parseFloat(args[1]);
+      if (!args[0] || isNaN(position)) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], position };
+    }
+    case 'S:TEMP': {
+      const temperature = parseFloat(args[1]);
+      if (!args[0] || isNaN(temperature)) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], temperature };
+    }
+    case 'R:INVOKE':
+      if (args.length < 3) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], result: args[1], method: args[2], params: args.slice(3) };
+    case 'S:STATUS':
+      // Extended status (STATUSEX) reports the interface method whose value changed
+      if (args.length < 2) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], method: args[1], params: args.slice(2) };
+    case 'S:THERMOP':
+    case 'R:GETTHERMOP':
+    case 'R:THERMOP':
+      if (args.length < 2) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], mode: args[1] };
+    case 'S:THERMFAN':
+    case 'R:GETTHERMFAN':
+    case 'R:THERMFAN':
+      if (args.length < 2) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], fan: args[1].toUpperCase() };
+    case 'S:THERMTEMP':
+    case 'R:THERMTEMP': {
+      const temperature = parseFloat(args[2]);
+      if (args.length < 3 || isNaN(temperature)) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], setpoint: args[1], temperature };
+    }
+    case 'S:BTN':
+      if (args.length < 2) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], action: args[1].toUpperCase() };
+    case 'S:TASK': {
+      const state = parseInt(args[1]);
+      if (!args[0] || isNaN(state)) {
+        return unknown;
+      }
+      return { ...base, type: command, vid: args[0], running: state > 0 };
+    }
+    case 'S:VARIABLE':
+    case 'R:GETVARIABLE':
+    case 'R:VARIABLE':
+      if (args.length < 2) {
+        return unknown;
+      }
+      // Text variables may contain spaces and arrive quoted
+      return { ...base, type: command, vid: args[0], value: args.slice(1).join(' ').replace(/^"(.*)"$/, '$1') };
+    default:
+      return unknown;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Glob matching for the name patterns used in the plugin config. `*` matches any run of
+ * characters and `?` a single one; matching ignores case.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+// A selector is either an exact VID or a name glob
+export function matchesSelector(vid: string, name: string, selectors: string[]): boolean {
+  return selectors.some(selector => {
+    const trimmed = selector.trim();
+    return /^\d+$/.test(trimmed) ? trimmed === vid : matchesGlob(name, trimmed);
+  });
+}
@@ -1,11 +1,29 @@
 import { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig, Service, Characteristic } from 'homebridge';
-import { VantageInfusion } from './vantageInfusion';
-import { VantageAccessory } from './accessories/base';
+import {
+  COLOR_LOAD_TYPES,
+  ConnectionState,
+  STATION_TYPES,
+  ThermostatSetpoint,
+  VantageArea,
+  VantageColor,
+  VantageInfusion,
+} from './vantageInfusion';
+import { VantageAccessory, VantageAccessoryConfig } from './accessories/base';
 import { VantageThermostat } from './accessories/thermostat';
-import { VantageLoad } from './accessories/load';
+import { VantageLoad, VantageLoadOptions } from './accessories/load';
 import { VantageBlind } from './accessories/blind';
 import { VantageSwitch } from './accessories/switch';
-import { ConfigValidator, VantagePlatformConfig } from './config';
+import { VantageKeypad } from './accessories/keypad';
+import { VantageTask } from './accessories/task';
+import { VantageVariable, VantageVariableKind } from './accessories/variable';
+import { VantageTemperatureSensor } from './accessories/temperature';
+import { VantageContactSensor } from './accessories/contact';
+import { VantageGarageDoor } from './accessories/garageDoor';
+import { VantageAreaSwitch } from './accessories/area';
+import { ConfigValidator, DeviceOverrideConfig, DeviceServiceType, VantagePlatformConfig } from './config';
+import { BrightnessCurve } from './brightnessCurve';
+import { DeviceFilter } from './deviceFilter';
+import { matchesSelector } from './patterns';
 
 export const PLATFORM_NAME = 'VantageControlsModern';
 export const PLUGIN_NAME = 'homebridge-vantage-modern';
@@ -17,7 +35,15 @@ export class VantagePlatform implements DynamicPlatformPlugin {
 
   public readonly infusion: VantageInfusion;
   private readonly deviceMap = new Map<string, VantageAccessory>();
+  private readonly buttonMap = new Map<string, VantageKeypad>();
+  // Garage doors by the VID of their position contact
+  private readonly garageDoorMap = new Map<string, VantageGarageDoor>();
+  // Area switches by the VIDs of their member loads
+  private readonly areaMap = new Map<string, VantageAreaSwitch[]>();
+  // Last reported level of every load, which new area switches start from
+  private readonly loadLevels = new Map<string, number>();
   private readonly validatedConfig: VantagePlatformConfig;
+  private readonly deviceFilter: DeviceFilter;
 
   constructor(
     public readonly log: Logger,
@@ -32,6 +58,8 @@ export class VantagePlatform implements DynamicPlatformPlugin {
       throw error;
     }
 
+    this.deviceFilter = new DeviceFilter(this.validatedConfig);
+
     this.Service = this.api.hap.Service;
     this.Characteristic = this.api.hap.Characteristic;
 
@@ -41,12 +69,18 @@ export class VantagePlatform implements DynamicPlatformPlugin {
 
     this.infusion = new VantageInfusion({
       ipAddress: this.validatedConfig.ipaddress,
+      commandPort: this.validatedConfig.commandPort,
+      configPort: this.validatedConfig.configPort,
       username: this.validatedConfig.username || '',
       password: this.validatedConfig.password || '',
-      omit: this.validatedConfig.omit || '',
-      range: this.validatedConfig.range || '',
+      tasks: this.validatedConfig.tasks || [],
+      variables: this.validatedConfig.variables || [],
       log: this.validatedConfig.debug ? this.log : this.createSilentLogger(),
       debug: this.validatedConfig.debug,
+      commandQueueMaxAge: this.validatedConfig.commandQueueMaxAge * 1000,
+      writeCoalesceTime: this.validatedConfig.writeCoalesceTime * 1000,
+      storagePath: this.api.user.storagePath(),
+      usecache: this.validatedConfig.usecache,
     });
 
     this.setupEventHandlers();
@@ -58,6 +92,10 @@ export class VantagePlatform implements DynamicPlatformPlugin {
     this.api.on('didFinishLaunching', () => {
       this.startDiscovery();
     });
+
+    this.api.on('shutdown', () => {
+      this.infusion.close();
+    });
   }
 
   private createSilentLogger(): Logger {
@@ -85,6 +123,24 @@ export class VantagePlatform implements DynamicPlatformPlugin {
   }
 
   private setupEventHandlers(): void {
+    // Track the controller link and resync every accessory once it is back
+    this.infusion.on('connectionStateChange', (state: ConnectionState, previous: ConnectionState) => {
+      this.log.debug(`Controller connection: ${previous} -> ${state}`);
+
+      if (state === 'subscribed') {
+        this.log.info(`Controller session established, refreshing ${this.deviceMap.size} accessories`);
+        this.deviceMap.forEach(accessory => {
+          accessory.updateConnection(true);
+          accessory.refreshState();
+        });
+      } else if (previous === 'subscribed') {
+        if (state === 'backoff') {
+          this.log.warn('Lost connection to the Vantage controller');
+        }
+        this.deviceMap.forEach(accessory => accessory.updateConnection(false));
+      }
+    });
+
     // Handle load status changes
     this.infusion.on('loadStatusChange', (vid: string, value: number) => {
       const accessory = this.deviceMap.get(vid.toString());
@@ -92,6 +148,27 @@ export class VantagePlatform implements DynamicPlatformPlugin {
         accessory.updateState(value);
       } else if (accessory instanceof VantageSwitch) {
         accessory.updateState(value > 0);
+      } else if (accessory instanceof VantageBlind) {
+        // A motor load overridden to a window covering
+        accessory.updatePosition(value);
+      }
+      this.loadLevels.set(vid.toString(), value);
+      this.areaMap.get(vid.toString())?.forEach(area => area.updateLoad(vid.toString(), value));
+    });
+
+    // Handle color changes on RGB loads
+    this.infusion.on('loadColorChange', (vid: string, color: VantageColor) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageLoad) {
+        accessory.updateColor(color);
+      }
+    });
+
+    // Handle color temperature changes on tunable-white loads
+    this.infusion.on('loadColorTemperatureChange', (vid: string, kelvin: number) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageLoad) {
+        accessory.updateColorTemperature(kelvin);
       }
     });
 
@@ -103,6 +180,44 @@ export class VantagePlatform implements DynamicPlatformPlugin {
       }
     });
 
+    // Handle task running state changes
+    this.infusion.on('taskStatusChange', (vid: string, running: boolean) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageTask) {
+        accessory.updateState(running);
+      }
+    });
+
+    // Handle variable value changes
+    this.infusion.on('variableStatusChange', (vid: string, value: number) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageVariable) {
+        accessory.updateState(value);
+      }
+    });
+
+    // Handle dry contacts opening and closing
+    this.infusion.on('contactStatusChange', (vid: string, closed: boolean) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageContactSensor) {
+        accessory.updateState(closed);
+      }
+      this.garageDoorMap.get(vid.toString())?.updateContact(closed);
+    });
+
+    // Handle keypad button events
+    this.infusion.on('buttonStatusChange', (vid: string, action: string) => {
+      this.buttonMap.get(vid.toString())?.handleButtonEvent(vid.toString(), action);
+    });
+
+    // Handle temperature readings, from sensors and thermostats alike
+    this.infusion.on('temperatureChange', (vid: string, temp: number) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageTemperatureSensor || accessory instanceof VantageThermostat) {
+        accessory.updateTemperature(temp);
+      }
+    });
+
     // Handle thermostat changes
     this.infusion.on('thermostatIndoorTemperatureChange', (vid: string, temp: number) => {
       const accessory = this.deviceMap.get(vid.toString());
@@ -117,81 +232,244 @@ export class VantagePlatform implements DynamicPlatformPlugin {
         accessory.updateMode(mode);
       }
     });
+
+    this.infusion.on('thermostatSetpointChange', (vid: string, setpoint: ThermostatSetpoint, temp: number) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageThermostat) {
+        accessory.updateSetpoint(setpoint, temp);
+      }
+    });
+
+    this.infusion.on('thermostatFanChange', (vid: string, on: boolean) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageThermostat) {
+        accessory.updateFan(on);
+      }
+    });
+
+    this.infusion.on('thermostatHoldChange', (vid: string, hold: boolean) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageThermostat) {
+        accessory.updateHold(hold);
+      }
+    });
+
+    this.infusion.on('thermostatHumidityChange', (vid: string, humidity: number) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageThermostat) {
+        accessory.updateHumidity(humidity);
+      }
+    });
+
+    this.infusion.on('thermostatRunningStateChange', (vid: string, state: number) => {
+      const accessory = this.deviceMap.get(vid.toString());
+      if (accessory instanceof VantageThermostat) {
+        accessory.updateRunningState(state);
+      }
+    });
   }
 
   private async startDiscovery(): Promise<void> {
     try {
-      this.infusion.on('discoveryComplete', (devices) => {
-        // Array to store new accessories that need to be registered
-        const newAccessories: PlatformAccessory[] = [];
+      this.infusion.on('discoveryComplete', (devices) => this.syncAccessories(devices));
+
+      await this.infusion.discover();
+    } catch (error) {
+      this.log.error('Discovery failed:', error);
+    }
+  }
 
-        for (const device of devices) {
-          // Get the VID as a string
-          const vidStr = device.VID;
+  private syncAccessories(devices: any[]): void {
+    // An empty project means discovery failed; never treat that as every device being removed
+    if (devices.length === 0) {
+      this.log.warn('No devices discovered, keeping cached accessories');
+      return;
+    }
 
-          // Skip devices in omit list or outside range
-          if (this.shouldSkipDevice(vidStr)) continue;
+    // Skip hidden devices and those the filters leave out; area switches control what is left,
+    // so only their own override can hide them
+    devices = this.composeGarageDoors(devices).filter(device => !this.shouldSkipDevice(device));
+    devices = [...devices, ...this.composeAreas(devices).filter(device => !this.isHidden(device))];
+    this.areaMap.clear();
 
-          // Generate a unique id for this device
-          const uuid = this.api.hap.uuid.generate(vidStr);
+    // Array to store new accessories that need to be registered
+    const newAccessories: PlatformAccessory[] = [];
+    const updatedAccessories: PlatformAccessory[] = [];
+    const discoveredUuids = new Set<string>();
 
-          // Check if an accessory with the same uuid has already been registered and restored from
-          // the cached devices we stored in the `configureAccessory` method
-          const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+    for (const device of devices) {
+      // Get the VID as a string
+      const vidStr = device.VID;
 
-          if (existingAccessory) {
-            // The accessory already exists
-            // this.log.info(`Restoring existing accessory: ${device.Name} (VID: ${vidStr})`);
+      // Generate a unique id for this device
+      const uuid = this.api.hap.uuid.generate(vidStr);
+      discoveredUuids.add(uuid);
 
-            // Update the accessory context
-            existingAccessory.context.device = device;
+      // Check if an accessory with the same uuid has already been registered and restored from
+      // the cached devices we stored in the `configureAccessory` method
+      const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
 
-            // Create the accessory handler
-            this.setupAccessoryHandler(existingAccessory, device);
+      if (existingAccessory) {
+        // The accessory already exists
+        // this.log.info(`Restoring existing accessory: ${device.Name} (VID: ${vidStr})`);
 
-            // Update accessory cache
-            this.api.updatePlatformAccessories([existingAccessory]);
-          } else {
-            // The accessory does not yet exist, so we need to create it
-            this.log.info(`Adding new accessory: ${device.Name} (VID: ${vidStr})`);
+        // Update the accessory context
+        existingAccessory.context.device = device;
 
-            // Create a new accessory
-            const accessory = new this.api.platformAccessory(device.Name, uuid);
+        // Create the accessory handler
+        this.setupAccessoryHandler(existingAccessory, device);
 
-            // Store a copy of the device object in the `accessory.context`
-            accessory.context.device = device;
+        // Update accessory cache
+        this.api.updatePlatformAccessories([existingAccessory]);
+        updatedAccessories.push(existingAccessory);
+      } else {
+        // The accessory does not yet exist, so we need to create it
+        this.log.info(`Adding new accessory: ${device.Name} (VID: ${vidStr})`);
 
-            // Set the room for this accessory if area information is available
-            if (device.Area) {
-              accessory.context.roomName = device.Area.toString();
-            }
+        // Create a new accessory
+        const accessory = new this.api.platformAccessory(this.getOverride(vidStr)?.name ?? device.Name, uuid);
 
-            // Create the accessory handler
-            this.setupAccessoryHandler(accessory, device);
+        // Store a copy of the device object in the `accessory.context`
+        accessory.context.device = device;
 
-            // Add to the list of new accessories
-            newAccessories.push(accessory);
-          }
+        // Set the room for this accessory if area information is available
+        if (device.Area) {
+          accessory.context.roomName = device.Area.toString();
         }
 
-        // Register new accessories with Homebridge
-        if (newAccessories.length > 0) {
-          this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, newAccessories);
-          this.accessories.push(...newAccessories);
+        // Create the accessory handler
+        this.setupAccessoryHandler(accessory, device);
+
+        // Add to the list of new accessories
+        newAccessories.push(accessory);
+      }
+    }
+
+    // Register new accessories with Homebridge
+    if (newAccessories.length > 0) {
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, newAccessories);
+      this.accessories.push(...newAccessories);
+    }
+
+    // Unregister cached accessories whose device is gone from the project or now filtered out
+    const staleAccessories = this.accessories.filter(accessory => !discoveredUuids.has(accessory.UUID));
+    if (staleAccessories.length > 0) {
+      for (const accessory of staleAccessories) {
+        this.log.info(`Removing stale accessory: ${accessory.displayName} (VID: ${accessory.context.device?.VID ?? 'unknown'})`);
+        if (accessory.context.device?.VID) {
+          this.deviceMap.delete(accessory.context.device.VID);
+        }
+        accessory.context.device?.Buttons?.forEach(button => this.buttonMap.delete(button.VID));
+        if (accessory.context.device?.ContactVID) {
+          this.garageDoorMap.delete(accessory.context.device.ContactVID);
         }
+      }
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, staleAccessories);
+      this.accessories.splice(0, this.accessories.length,
+        ...this.accessories.filter(accessory => discoveredUuids.has(accessory.UUID)));
+    }
 
-        this.log.info(`Discovered ${devices.length} devices, registered ${newAccessories.length} new accessories`);
+    this.log.info(`Discovered ${devices.length} devices: ${newAccessories.length} added, ` +
+      `${updatedAccessories.length} updated, ${staleAccessories.length} removed`);
+  }
+
+  // Replaces each configured relay and contact pair with a single garage door device,
+  // which keeps the relay's VID so an existing relay switch accessory is reused
+  private composeGarageDoors(devices: any[]): any[] {
+    const doors = this.validatedConfig.garageDoors || [];
+    if (doors.length === 0) {
+      return devices;
+    }
+
+    const paired = new Set(doors.flatMap(door => [String(door.relay), String(door.contact)]));
+    const composed = devices.filter(device => !paired.has(device.VID));
+
+    for (const door of doors) {
+      const relay = devices.find(device => device.VID === String(door.relay));
+      if (!relay) {
+        this.log.warn(`Garage door ${door.name}: relay ${door.relay} was not found in the project`);
+        continue;
+      }
+      composed.push({
+        VID: relay.VID,
+        Name: door.name,
+        ObjectType: 'GarageDoor',
+        LoadType: '',
+        DeviceCategory: '',
+        Area: relay.Area,
+        AreaPath: relay.AreaPath,
+        ContactVID: String(door.contact),
       });
+    }
 
-      await this.infusion.discover();
-    } catch (error) {
-      this.log.error('Discovery failed:', error);
+    return composed;
+  }
+
+  // One master switch per area with loads, which also covers the loads of its child areas
+  private composeAreas(devices: any[]): any[] {
+    if (!this.validatedConfig.areaSwitches) {
+      return [];
+    }
+
+    const areas = new Map(this.infusion.areas.map(area => [String(area.VID), area]));
+    const loadsByArea = new Map<string, string[]>();
+    for (const device of devices.filter(candidate => this.isAreaLoad(candidate))) {
+      this.getAreaChain(device.AreaVID, areas).forEach(area => {
+        const loads = loadsByArea.get(String(area.VID)) || [];
+        loadsByArea.set(String(area.VID), [...loads, device.VID]);
+      });
+    }
+
+    return [...areas.values()]
+      .filter(area => loadsByArea.has(String(area.VID)))
+      .map(area => ({
+        VID: String(area.VID),
+        Name: area.Name,
+        ObjectType: 'Area',
+        LoadType: '',
+        DeviceCategory: '',
+        Area: area.Name,
+        AreaVID: String(area.VID),
+        AreaPath: this.getAreaChain(String(area.VID), areas).map(parent => parent.Name).reverse(),
+        Loads: loadsByArea.get(String(area.VID)),
+      }));
+  }
+
+  // The area and its parents, innermost first
+  private getAreaChain(vid: string, areas: Map<string, VantageArea>): VantageArea[] {
+    const chain: VantageArea[] = [];
+    for (let area = areas.get(vid); area && !chain.includes(area); area = areas.get(String(area.Parent))) {
+      chain.push(area);
+    }
+    return chain;
+  }
+
+  // Only lights follow an area switch; relays and motors may run appliances or door openers
+  private isAreaLoad(device: any): boolean {
+    const service = this.getOverride(device.VID)?.service;
+    if (service) {
+      return service === 'lightbulb';
+    }
+    if (COLOR_LOAD_TYPES.includes(device.ObjectType)) {
+      return true;
+    }
+    return device.ObjectType === 'Load' && !this.isRelay(device) && !/motor/i.test(device.LoadType || '') &&
+      !device.Name.toLowerCase().includes('fan');
+  }
+
+  private async switchAreaLoad(vid: string, on: boolean): Promise<void> {
+    const load = this.deviceMap.get(vid);
+    if (load instanceof VantageLoad) {
+      await load.setPower(on);
+    } else {
+      await this.infusion.setLoadLevel(vid, on ? 100 : 0);
     }
   }
 
   private setupAccessoryHandler(accessory: PlatformAccessory, device: any): void {
+    const override = this.getOverride(device.VID);
     const config = {
-      name: this.getDeviceName(device),
+      name: override?.name ?? this.getDeviceName(device),
       vid: device.VID,
       type: this.getDeviceType(device),
     };
@@ -209,35 +487,90 @@ export class VantagePlatform implements DynamicPlatformPlugin {
       accessory.context.roomName = roomName;
     }
 
+    // Controllers of a previous handler hold on to the old services
+    this.deviceMap.get(device.VID)?.getControllers().forEach(controller => accessory.removeController(controller));
+
     let handler: VantageAccessory;
 
-    switch (device.ObjectType) {
-      case 'Thermostat':
-        handler = new VantageThermostat(this, config);
-        // this.log.debug(`  Created Thermostat accessory`);
-        break;
-      case 'Blind':
-      case 'RelayBlind':
-      case 'QubeBlind':
-        handler = new VantageBlind(this, config);
-        // this.log.debug(`  Created Blind accessory`);
-        break;
-      case 'Load':
-        if (this.isRelay(device)) {
-          handler = new VantageSwitch(this, config);
-          // this.log.debug(`  Created Switch accessory (relay)`);
-        } else {
-          handler = new VantageLoad(this, config);
-          // this.log.debug(`  Created Load accessory (${config.type})`);
+    const service = this.getServiceOverride(device, override);
+    if (service) {
+      handler = this.createServiceHandler(device, config, service);
+    } else {
+      switch (device.ObjectType) {
+        case 'Thermostat':
+          handler = new VantageThermostat(this, config, { humidity: device.HasHumidity });
+          // this.log.debug(`  Created Thermostat accessory`);
+          break;
+        case 'Blind':
+        case 'RelayBlind':
+        case 'QubeBlind':
+          handler = new VantageBlind(this, config);
+          // this.log.debug(`  Created Blind accessory`);
+          break;
+        case 'Load':
+          if (this.isRelay(device)) {
+            handler = new VantageSwitch(this, config);
+            // this.log.debug(`  Created Switch accessory (relay)`);
+          } else {
+            handler = new VantageLoad(this, config, this.getLoadOptions(device));
+            // this.log.debug(`  Created Load accessory (${config.type})`);
+          }
+          break;
+        case 'RGBLoad':
+        case 'DMXRGBLoad':
+        case 'DALIRGBLoad':
+          handler = new VantageLoad(this, config, this.getLoadOptions(device));
+          break;
+        case 'Task':
+          handler = new VantageTask(this, config);
+          break;
+        case 'Temperature':
+          handler = new VantageTemperatureSensor(this, config);
+          break;
+        case 'GarageDoor': {
+          const door = this.validatedConfig.garageDoors.find(entry => String(entry.relay) === device.VID);
+          const garageDoor = new VantageGarageDoor(this, config, {
+            contact: device.ContactVID,
+            pulseTime: door?.pulseTime,
+            travelTime: door?.travelTime,
+            inverted: door?.inverted,
+          });
+          this.garageDoorMap.set(device.ContactVID, garageDoor);
+          handler = garageDoor;
+          break;
         }
-        break;
-      default:
-        this.log.warn(`Unknown device type: ${device.ObjectType}`);
-        return;
+        case 'DryContact': {
+          const contact = this.validatedConfig.contacts?.find(entry => String(entry.vid) === device.VID);
+          handler = new VantageContactSensor(this, config, contact?.type, contact?.inverted);
+          break;
+        }
+        case 'Area': {
+          const area = new VantageAreaSwitch(this, config, device.Loads || [],
+            (vid, on) => this.switchAreaLoad(vid, on), this.loadLevels);
+          device.Loads?.forEach(vid => this.areaMap.set(vid, [...(this.areaMap.get(vid) || []), area]));
+          handler = area;
+          break;
+        }
+        case 'Variable':
+          handler = new VantageVariable(this, config, this.getVariableKind(device));
+          break;
+        case 'Keypad':
+        case 'DualRelayStation':
+        case 'Dimmer': {
+          const keypad = new VantageKeypad(this, config, device.Buttons || []);
+          device.Buttons?.forEach(button => this.buttonMap.set(button.VID, keypad));
+          handler = keypad;
+          break;
+        }
+        default:
+          this.log.warn(`Unknown device type: ${device.ObjectType}`);
+          return;
+      }
     }
 
     // Store the handler in our map
     this.deviceMap.set(device.VID, handler);
+    handler.updateConnection(this.infusion.connected);
 
     // Get all services from the handler
     const services = handler.getServices();
@@ -266,34 +599,77 @@ export class VantagePlatform implements DynamicPlatformPlugin {
         }
       }
     });
+
+    // Controllers extend services that must already be attached
+    handler.getControllers().forEach(controller => accessory.configureController(controller));
   }
 
-  private shouldSkipDevice(vid: string | number): boolean {
-    // Convert to string for comparison
-    const vidStr = vid.toString();
+  private getOverride(vid: string): DeviceOverrideConfig | undefined {
+    return this.validatedConfig.devices?.find(entry => String(entry.vid) === vid);
+  }
+
+  // Service overrides only apply to loads; other objects keep their detected service
+  private getServiceOverride(device: any, override?: DeviceOverrideConfig): DeviceServiceType | undefined {
+    if (!override?.service) {
+      return undefined;
+    }
+    if (device.ObjectType !== 'Load' && !COLOR_LOAD_TYPES.includes(device.ObjectType)) {
+      this.log.warn(`Ignoring service override for ${device.Name} (VID: ${device.VID}): only loads can change service`);
+      return undefined;
+    }
+    return override.service;
+  }
+
+  private createServiceHandler(device: any, config: VantageAccessoryConfig, service: DeviceServiceType): VantageAccessory {
+    switch (service) {
+      case 'lightbulb':
+        return new VantageLoad(this, config, { ...this.getLoadOptions(device), fan: false });
+      case 'fan':
+        return new VantageLoad(this, config, { ...this.getLoadOptions(device), fan: true });
+      case 'windowCovering':
+        return new VantageBlind(this, config, { load: true });
+      default:
+        return new VantageSwitch(this, config, service);
+    }
+  }
 
-    // Check if it's in the omit list
-    const omitList = (this.validatedConfig.omit || '').split(',').map(x => x.trim());
-    if (omitList.includes(vidStr)) {
-      this.log.debug(`Skipping device ${vidStr} (in omit list)`);
+  // Fade and on-level settings of a device take precedence over the global ones
+  private getLoadOptions(device: any): VantageLoadOptions {
+    const override = this.getOverride(device.VID);
+    return {
+      rampUpTime: override?.rampUpTime ?? this.validatedConfig.rampUpTime,
+      rampDownTime: override?.rampDownTime ?? this.validatedConfig.rampDownTime,
+      onLevel: override?.onLevel ?? this.validatedConfig.onLevel,
+      fixedLevel: override?.fixedLevel ?? this.validatedConfig.fixedLevel,
+      rampMode: override?.rampMode ?? this.validatedConfig.rampMode,
+      curve: override && [override.lowTrim, override.highTrim, override.curve].some(value => value !== undefined)
+        ? new BrightnessCurve(override)
+        : undefined,
+    };
+  }
+
+  private shouldSkipDevice(device: any): boolean {
+    if (this.isHidden(device)) {
       return true;
     }
 
-    // Check if it's outside the range (only for numeric VIDs)
-    const numVid = typeof vid === 'number' ? vid : parseInt(vidStr);
-    if (!isNaN(numVid)) {
-      const range = (this.validatedConfig.range || '').split(',').map(x => parseInt(x.trim()));
-      if (range.length === 2) {
-        if (numVid < range[0] || numVid > range[1]) {
-          // this.log.debug(`Skipping device ${vidStr} (outside range ${range[0]}-${range[1]})`);
-          return true;
-        }
-      }
+    const reason = this.deviceFilter.exclusionReason(device);
+    if (reason) {
+      this.log.debug(`Skipping device ${device.Name} (VID: ${device.VID}): ${reason}`);
+      return true;
     }
 
     return false;
   }
 
+  private isHidden(device: any): boolean {
+    if (this.getOverride(device.VID)?.hidden) {
+      this.log.debug(`Skipping device ${device.Name} (VID: ${device.VID}): hidden by device override`);
+      return true;
+    }
+    return false;
+  }
+
   private getDeviceName(device: any): string {
     let name = device.DName || device.Name || '';
 
@@ -314,11 +690,20 @@ export class VantagePlatform implements DynamicPlatformPlugin {
 
   private getDeviceType(device: any): string {
     if (device.ObjectType === 'Thermostat') return 'thermostat';
+    if (STATION_TYPES.includes(device.ObjectType)) return 'keypad';
+    if (COLOR_LOAD_TYPES.includes(device.ObjectType)) return 'rgb';
+    if (device.ObjectType === 'Task') return 'task';
+    if (device.ObjectType === 'Variable') return 'variable';
+    if (device.ObjectType === 'Temperature') return 'temperature';
+    if (device.ObjectType === 'DryContact') return 'contact';
+    if (device.ObjectType === 'GarageDoor') return 'garage';
+    if (device.ObjectType === 'Area') return 'area';
     if (device.ObjectType.includes('Blind')) return 'blind';
     if (this.isRelay(device)) return 'relay';
 
-    // For Load objects, check if they're dimmable
+    // For Load objects, check if they're tunable white or dimmable
     if (device.ObjectType === 'Load') {
+      if (this.isTunableWhite(device)) return 'tunable';
       return this.isDimmable(device) ? 'dimmer' : 'non-dimmer';
     }
 
@@ -326,6 +711,17 @@ export class VantagePlatform implements DynamicPlatformPlugin {
     return 'non-dimmer';
   }
 
+  private getVariableKind(device: any): VantageVariableKind {
+    if (device.DataType === 'boolean') {
+      return 'switch';
+    }
+    return matchesSelector(device.VID, device.Name, this.validatedConfig.writableVariables || []) ? 'value' : 'sensor';
+  }
+
+  private isTunableWhite(device: any): boolean {
+    return /tunable|DT8|CCT/i.test(device.LoadType || '');
+  }
+
   private isRelay(device: any): boolean {
     return device.LoadType?.includes('Relay') || false;
   }
@@ -1,17 +1,31 @@
 import {Logger} from 'homebridge';
 import {Socket} from 'net';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {EventEmitter} from 'events';
 import {XMLParser} from 'fast-xml-parser';
 import {sprintf} from 'sprintf-js';
+import {LineFramer, VantageMessage, parseMessage} from './hostProtocol';
+import {matchesSelector} from './patterns';
 
 interface VantageInfusionConfig {
   ipAddress: string;
   username: string;
   password: string;
-  omit: string;
-  range: string;
   log: Logger;
   debug: boolean;
+  commandPort?: number;
+  configPort?: number;
+  commandTimeout?: number;
+  reconnectDelay?: number;
+  maxReconnectDelay?: number;
+  commandQueueMaxAge?: number;
+  writeCoalesceTime?: number;
+  storagePath?: string;
+  usecache?: boolean;
+  tasks?: string[];
+  variables?: string[];
 }
 
 interface VantageCommand {
@@ -20,24 +34,123 @@ interface VantageCommand {
   value: number | string;
 }
 
+export interface VantageButton {
+  VID: string;
+  Name: string;
+  Position: number;
+}
+
 interface VantageDevice {
   VID: string;
   Name: string;
   Area?: string;
+  AreaVID?: string;
+  // Area names from the outermost area down to the device's own
+  AreaPath?: string[];
   ObjectType: string;
   LoadType?: string;
   DeviceCategory?: string;
   DName?: string;
+  Buttons?: VantageButton[];
+  DataType?: 'boolean' | 'number';
+  HasHumidity?: boolean;
 }
 
-interface VantageArea {
+// Areas form a tree through their parent VIDs
+export interface VantageArea {
   VID: string;
   Name: string;
+  Parent?: string;
+}
+
+export interface VantageThermostatStatus {
+  indoorTemperature: number;
+  mode: number;
+  heatSetpoint: number;
+  coolSetpoint: number;
+  // What the HVAC unit is actually doing (0 idle, 1 heating, 2 cooling), or NaN if not reported
+  runningState: number;
+}
+
+export type ThermostatSetpoint = 'HEAT' | 'COOL';
+
+export type TemperatureUnits = 'C' | 'F';
+
+export interface VantageColor {
+  hue: number;
+  saturation: number;
+  lightness: number;
+}
+
+interface PendingCommand {
+  line: string;
+  responses: string[];
+  // Object the command addresses; responses naming a different one belong to another request
+  vid?: string;
+  // Interface method (INVOKE) or setpoint (THERMTEMP) the response must name as well
+  method?: string;
+  setpoint?: string;
+  resolve: (message: VantageMessage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface QueuedCommand {
+  line: string;
+  key: string;
+  queuedAt: number;
+  resolve: (message: VantageMessage) => void;
+  reject: (error: Error) => void;
 }
 
+interface CoalescedWrite {
+  // Latest value written; status reporting anything else is an echo of a superseded write
+  target: number;
+  echoed: boolean;
+  timer: NodeJS.Timeout;
+  // Latest write held back until the quiet window passes
+  next?: QueuedCommand;
+  refresh: () => Promise<unknown>;
+}
+
+export class VantageCommandError extends Error {
+  constructor(message: string, public readonly command: string, public readonly code?: number) {
+    super(message);
+    this.name = 'VantageCommandError';
+  }
+}
+
+// Station objects whose buttons are exposed as programmable switches
+export const STATION_TYPES = ['Keypad', 'DualRelayStation', 'Dimmer'];
+
+// Load objects driven through the RGBLoad interface
+export const COLOR_LOAD_TYPES = ['RGBLoad', 'DMXRGBLoad', 'DALIRGBLoad'];
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'authenticating' | 'subscribed' | 'backoff';
+
+const EVENT_CATEGORIES = ['AUTOMATION', 'EVENT', 'STATUS', 'STATUSEX', 'SYSTEM'];
+
+const THERMOSTAT_MODES: Record<number, string> = {
+  0: 'OFF',
+  1: 'HEAT',
+  2: 'COOL',
+  3: 'AUTO',
+};
+
 export class VantageInfusion extends EventEmitter {
-  private readonly commandSocket: Socket;
+  private commandSocket: Socket;
   private readonly interfaces: Record<string, number> = {};
+  private readonly framer = new LineFramer();
+  private pending: PendingCommand[] = [];
+  private outbound: QueuedCommand[] = [];
+  private closed = false;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private readonly writes = new Map<string, CoalescedWrite>();
+  private state: ConnectionState = 'disconnected';
+  // Unit the controller reports and expects temperatures in; everything we emit or accept is Celsius
+  private units: TemperatureUnits = 'C';
+  private projectAreas: VantageArea[] = [];
 
   constructor(private readonly config: VantageInfusionConfig) {
     super();
@@ -45,96 +158,519 @@ export class VantageInfusion extends EventEmitter {
     // Set default values
     this.config.debug = this.config.log['level'] === 'debug';
 
-    this.commandSocket = this.setupCommandSocket();
+    this.connect();
   }
 
-  private setupCommandSocket(): Socket {
-    const socket = new Socket();
+  public get connectionState(): ConnectionState {
+    return this.state;
+  }
 
-    this.config.log.info(`Attempting to connect to Vantage controller at ${this.config.ipAddress}:3001`);
+  // Commands only reach the controller while the session is up
+  public get connected(): boolean {
+    return this.state === 'subscribed';
+  }
 
-    socket.connect(3001, this.config.ipAddress, () => {
-      this.config.log.info('Connected to Vantage controller');
+  // Commands issued during a connection attempt wait in the queue; between attempts they would go nowhere
+  public get acceptingCommands(): boolean {
+    return this.state !== 'backoff' && this.state !== 'disconnected';
+  }
 
-      if (this.config.username && this.config.password) {
-        this.config.log.debug('Authenticating with username and password');
-        socket.write(`LOGIN ${this.config.username} ${this.config.password}\r\n`);
-      }
+  public get temperatureUnits(): TemperatureUnits {
+    return this.units;
+  }
+
+  // Areas of the last parsed project
+  public get areas(): VantageArea[] {
+    return this.projectAreas;
+  }
+
+  private setState(state: ConnectionState): void {
+    if (state === this.state) {
+      return;
+    }
+    const previous = this.state;
+    this.state = state;
+    this.emit('connectionStateChange', state, previous);
+  }
+
+  // Each attempt gets a fresh socket so listeners never pile up across reconnects
+  private connect(): void {
+    const socket = new Socket();
+    this.commandSocket = socket;
+    this.framer.reset();
+    this.setState('connecting');
 
-      // First request status for all devices
-      this.config.log.debug('Requesting status for all devices');
-      socket.write('STATUS ALL\r\n');
+    this.config.log.info(`Attempting to connect to Vantage controller at ${this.config.ipAddress}:${this.commandPort}`);
 
-      // Then enable all status updates and logging
-      this.config.log.debug('Enabling status updates and logging');
-      socket.write('ELENABLE 1 AUTOMATION ON\r\nELENABLE 1 EVENT ON\r\nELENABLE 1 STATUS ON\r\nELENABLE 1 STATUSEX ON\r\nELENABLE 1 SYSTEM ON\r\nELLOG AUTOMATION ON\r\nELLOG EVENT ON\r\nELLOG STATUS ON\r\nELLOG STATUSEX ON\r\nELLOG SYSTEM ON\r\n');
+    // Give up on connection attempts that hang, but never time out an idle session
+    socket.setTimeout(10000, () => socket.destroy(new Error('Connection attempt timed out')));
+
+    socket.connect(this.commandPort, this.config.ipAddress, () => {
+      socket.setTimeout(0);
+      this.config.log.info('Connected to Vantage controller');
+      this.startSession(socket);
     });
 
     socket.on('data', (data) => this.handleCommandData(data));
     socket.on('error', (error) => this.handleSocketError(error));
     socket.on('close', () => {
+      if (this.closed || socket !== this.commandSocket) {
+        return;
+      }
       this.config.log.warn('Disconnected from Vantage controller');
-      this.setupReconnection();
+      this.rejectPending(new Error('Connection to controller closed'));
+      this.scheduleReconnect();
     });
+  }
+
+  private async startSession(socket: Socket): Promise<void> {
+    this.setState('authenticating');
 
-    return socket;
+    if (this.config.username && this.config.password) {
+      this.config.log.debug('Authenticating with username and password');
+      try {
+        await this.sendCommand(`LOGIN ${this.config.username} ${this.config.password}`);
+      } catch (error) {
+        this.config.log.error(`Login failed: ${(error as Error).message}`);
+        socket.destroy();
+        return;
+      }
+    }
+
+    // First request status for all devices, then enable all status updates and logging
+    this.config.log.debug('Requesting status for all devices and enabling status updates');
+    const subscriptions = [
+      'STATUS ALL',
+      ...EVENT_CATEGORIES.map(category => `ELENABLE 1 ${category} ON`),
+      ...EVENT_CATEGORIES.map(category => `ELLOG ${category} ON`),
+    ];
+    await Promise.all(subscriptions.map(line => this.sendCommand(line)
+      .catch((error) => this.config.log.debug(`${line} failed: ${error.message}`))));
+
+    if (socket !== this.commandSocket || socket.destroyed) {
+      return;
+    }
+
+    this.reconnectAttempts = 0;
+    this.setState('subscribed');
+    this.flushQueue();
   }
 
-  private handleCommandData(data: Buffer): void {
-    const lines = data.toString().split('\n');
+  private scheduleReconnect(): void {
+    const baseDelay = this.config.reconnectDelay ?? 1000;
+    const maxDelay = this.config.maxReconnectDelay ?? 60000;
+    const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, this.reconnectAttempts));
+    // Jitter between half and the full delay so a controller reboot doesn't see every client at once
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    this.reconnectAttempts++;
+
+    this.config.log.warn(`Reconnecting to Vantage controller in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})`);
+    // Commands waiting on this attempt fail now rather than hang until some later reconnect
+    this.rejectQueued(new Error('Connection to controller failed'));
+    this.setState('backoff');
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private get commandPort(): number {
+    return this.config.commandPort ?? 3001;
+  }
+
+  private get configPort(): number {
+    return this.config.configPort ?? 2001;
+  }
+
+  public close(): void {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.rejectPending(new Error('Connection to controller closed'));
+    this.rejectQueued(new Error('Connection to controller closed'));
+    this.writes.forEach(write => {
+      clearTimeout(write.timer);
+      write.next?.reject(new Error('Connection to controller closed'));
+    });
+    this.writes.clear();
+    this.commandSocket.destroy();
+    this.setState('disconnected');
+  }
+
+  /**
+   * Writes a command line and resolves with its `R:` response. The controller answers
+   * commands in the order they were sent, so pipelined requests are matched to the oldest
+   * pending command expecting that response. `R:ERROR` and timeouts reject.
+   */
+  private sendCommand(line: string, responses = this.expectedResponses(line)): Promise<VantageMessage> {
+    return new Promise((resolve, reject) => {
+      const [verb, vid, subject] = line.split(' ');
+      const command: PendingCommand = {
+        line,
+        responses,
+        vid,
+        method: verb === 'INVOKE' ? subject : undefined,
+        setpoint: verb.endsWith('THERMTEMP') ? subject : undefined,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.pending = this.pending.filter(entry => entry !== command);
+          reject(new VantageCommandError(`Timed out waiting for response to "${line}"`, line));
+        }, this.config.commandTimeout ?? 5000),
+      };
+
+      this.pending.push(command);
+      this.commandSocket.write(`${line}\r\n`);
+    });
+  }
+
+  /**
+   * Sends a device command once the session is subscribed. While disconnected, commands
+   * wait in order; a newer command with the same key (e.g. another level for the same load)
+   * replaces the queued one, which then settles with the newer command's result.
+   */
+  private queueCommand(line: string, key = line): Promise<VantageMessage> {
+    if (this.state === 'subscribed' && this.outbound.length === 0) {
+      return this.sendCommand(line);
+    }
+
+    return new Promise((resolve, reject) => {
+      const superseded = this.outbound.find(entry => entry.key === key);
+      const command: QueuedCommand = { line, key, queuedAt: Date.now(), resolve, reject };
+
+      if (superseded) {
+        this.config.log.debug(`Replacing queued command "${superseded.line}" with "${line}"`);
+        this.outbound = this.outbound.filter(entry => entry !== superseded);
+        command.resolve = (message) => {
+          superseded.resolve(message);
+          resolve(message);
+        };
+        command.reject = (error) => {
+          superseded.reject(error);
+          reject(error);
+        };
+      }
+
+      this.outbound.push(command);
+    });
+  }
+
+  /**
+   * Sends a level or position write for a slider. The first write goes out at once; writes
+   * following within the quiet window are coalesced and only the latest is sent once the
+   * slider has been still for that long. Superseded writes settle with the latest one.
+   */
+  private writeCommand(line: string, key: string, target: number, refresh: () => Promise<unknown>): Promise<VantageMessage> {
+    const write = this.writes.get(key);
+
+    // While disconnected the command queue already keeps only the latest write per key
+    if (this.state !== 'subscribed') {
+      const held = write?.next;
+      if (write) {
+        write.next = undefined;
+      }
+      const queued = this.queueCommand(line, key);
+      if (held) {
+        queued.then(held.resolve, held.reject);
+      }
+      return queued;
+    }
+
+    if (!write) {
+      this.writes.set(key, { target, echoed: false, timer: this.startWriteWindow(key), refresh });
+      return this.queueCommand(line, key);
+    }
+
+    clearTimeout(write.timer);
+    write.timer = this.startWriteWindow(key);
+    write.target = target;
+    write.echoed = false;
+
+    return new Promise((resolve, reject) => {
+      const superseded = write.next;
+      write.next = {
+        line,
+        key,
+        queuedAt: Date.now(),
+        resolve: (message) => {
+          superseded?.resolve(message);
+          resolve(message);
+        },
+        reject: (error) => {
+          superseded?.reject(error);
+          reject(error);
+        },
+      };
+    });
+  }
+
+  private startWriteWindow(key: string): NodeJS.Timeout {
+    return setTimeout(() => {
+      const write = this.writes.get(key);
+      const next = write.next;
+
+      if (next && !this.acceptingCommands) {
+        this.writes.delete(key);
+        next.reject(new Error('Connection to controller lost'));
+        return;
+      }
+
+      if (next) {
+        write.next = undefined;
+        write.timer = this.startWriteWindow(key);
+        this.queueCommand(next.line, key).then(next.resolve, next.reject);
+        return;
+      }
+
+      // The status for the latest write never arrived; read the real value instead
+      this.writes.delete(key);
+      if (!write.echoed && this.state === 'subscribed') {
+        write.refresh().catch((error: Error) => {
+          this.config.log.debug(`Failed to refresh ${key} after writing: ${error.message}`);
+        });
+      }
+    }, this.config.writeCoalesceTime ?? 250);
+  }
+
+  // Status for a value that has since been superseded would move the slider back
+  private isStaleEcho(key: string, value: number): boolean {
+    const write = this.writes.get(key);
+    if (!write || isNaN(write.target) || Math.abs(value - write.target) < 0.5) {
+      if (write) {
+        write.echoed = true;
+      }
+      return false;
+    }
+    this.config.log.debug(`Ignoring ${key} status ${value} while writing ${write.target}`);
+    return true;
+  }
 
-    for (const line of lines) {
-      const parts = line.split(' ');
-      if (!parts.length) {
+  private flushQueue(): void {
+    const maxAge = this.config.commandQueueMaxAge ?? 30000;
+    const now = Date.now();
+    const queued = this.outbound;
+    this.outbound = [];
+
+    if (queued.length) {
+      this.config.log.debug(`Sending ${queued.length} commands queued while disconnected`);
+    }
+
+    for (const command of queued) {
+      if (now - command.queuedAt > maxAge) {
+        this.config.log.warn(`Dropping stale command "${command.line}" queued ${Math.round((now - command.queuedAt) / 1000)}s ago`);
+        command.reject(new VantageCommandError(`Command "${command.line}" expired while disconnected`, command.line));
         continue;
       }
+      this.sendCommand(command.line).then(command.resolve, command.reject);
+    }
+  }
+
+  private expectedResponses(line: string): string[] {
+    const verb = line.split(' ')[0];
+    if (verb === 'GETTHERMTEMP') {
+      return ['R:THERMTEMP', 'R:GETTHERMTEMP'];
+    }
+    return [`R:${verb}`];
+  }
+
+  private settlePending(message: VantageMessage): boolean {
+    let command: PendingCommand | undefined;
+
+    if (message.type === 'R:ERROR') {
+      // Errors echo the offending command; fall back to the oldest request if they don't
+      const verb = message.args[0];
+      command = this.pending.find(entry => entry.line.split(' ')[0] === verb) || this.pending[0];
+    } else if (message.command.startsWith('R:')) {
+      command = this.pending.find(entry => entry.responses.includes(message.command) &&
+        (!('vid' in message) || message.vid === entry.vid) &&
+        (!('method' in message) || message.method === entry.method) &&
+        (!('setpoint' in message) || message.setpoint === entry.setpoint));
+    }
+
+    if (!command) {
+      return false;
+    }
+
+    clearTimeout(command.timer);
+    this.pending = this.pending.filter(entry => entry !== command);
 
-      this.processCommandResponse(parts);
+    if (message.type === 'R:ERROR') {
+      command.reject(new VantageCommandError(
+        `Controller returned error ${message.code} for "${command.line}"`, command.line, message.code));
+    } else {
+      command.resolve(message);
     }
+    return true;
   }
 
-  private processCommandResponse(parts: string[]): void {
-    const [command, ...args] = parts;
+  private rejectQueued(error: Error): void {
+    const queued = this.outbound;
+    this.outbound = [];
+    queued.forEach(command => command.reject(error));
+  }
 
-    switch (command) {
+  private rejectPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) {
+      clearTimeout(command.timer);
+      command.reject(error);
+    }
+  }
+
+  private handleCommandData(data: Buffer): void {
+    for (const line of this.framer.push(data)) {
+      this.processCommandResponse(parseMessage(line));
+    }
+  }
+
+  private processCommandResponse(message: VantageMessage): void {
+    const settled = this.settlePending(message);
+
+    // A response nothing is waiting for answers a request that already timed out
+    if (!settled && message.command.startsWith('R:')) {
+      this.config.log.debug(`Ignoring late response from controller: ${message.raw}`);
+      return;
+    }
+
+    switch (message.type) {
       case 'S:BLIND':
-      case 'R:GETBLIND': {
-        const vid = args[0];
-        const position = parseInt(args[1]);
-        this.emit('blindStatusChange', vid, position);
+      case 'R:GETBLIND':
+        if (!this.isStaleEcho(`BLIND ${message.vid}`, message.position)) {
+          this.emit('blindStatusChange', message.vid, message.position);
+        }
         break;
-      }
       case 'S:LOAD':
       case 'R:GETLOAD':
-        this.emit('loadStatusChange', args[0], parseInt(args[1]));
+        if (!this.isStaleEcho(`LOAD ${message.vid}`, message.level)) {
+          this.emit('loadStatusChange', message.vid, message.level);
+        }
         break;
       case 'S:TEMP':
-        this.emit('thermostatDidChange', args[1]);
+        this.emit('temperatureChange', message.vid, this.toCelsius(message.temperature));
         break;
       case 'R:INVOKE':
-        if (args[2]?.includes('Thermostat.GetIndoorTemperature')) {
+        if (message.method.includes('Thermostat.GetIndoorTemperature')) {
           this.emit('thermostatIndoorTemperatureChange',
-            args[0],
-            parseFloat(args[1])
+            message.vid,
+            this.toCelsius(parseFloat(message.result))
           );
+        } else if (message.method === 'DryContact.GetState') {
+          this.emit('contactStatusChange', message.vid, parseInt(message.result) > 0);
+        } else if (message.method === 'Temperature.GetValue') {
+          this.emit('temperatureChange', message.vid, this.toCelsius(parseFloat(message.result)));
+        } else if (message.method === 'Thermostat.GetHVACState') {
+          this.emitRunningStateChange(message.vid, message.result);
+        } else if (message.method === 'Thermostat.GetHoldMode') {
+          this.emit('thermostatHoldChange', message.vid, parseInt(message.result) > 0);
+        } else if (message.method === 'Thermostat.GetIndoorHumidity') {
+          this.emitHumidityChange(message.vid, message.result);
+        } else if (message.method === 'Task.IsRunning') {
+          this.emit('taskStatusChange', message.vid, parseInt(message.result) > 0);
+        } else if (message.method === 'RGBLoad.GetHSL') {
+          this.emitColorChange(message.vid, message.params);
+        } else if (message.method === 'Load.GetColorTemperature') {
+          this.emitColorTemperatureChange(message.vid, message.result);
+        }
+        break;
+      case 'S:STATUS':
+        if (message.method === 'RGBLoad.GetHSL') {
+          this.emitColorChange(message.vid, message.params);
+        } else if (message.method === 'Load.GetColorTemperature') {
+          this.emitColorTemperatureChange(message.vid, message.params[0]);
+        } else if (message.method === 'Thermostat.GetHVACState') {
+          this.emitRunningStateChange(message.vid, message.params[0]);
+        } else if (message.method === 'Thermostat.GetHoldMode') {
+          this.emit('thermostatHoldChange', message.vid, parseInt(message.params[0]) > 0);
+        } else if (message.method === 'Thermostat.GetIndoorHumidity') {
+          this.emitHumidityChange(message.vid, message.params[0]);
+        } else {
+          this.config.log.debug(`Unhandled status for ${message.vid}: ${message.raw}`);
         }
         break;
       case 'S:THERMOP':
       case 'R:GETTHERMOP':
-      case 'R:THERMTEMP': {
+      case 'R:THERMOP': {
+        const mode = message.mode;
         let modeVal = 0;
-        if (args[1].includes('OFF')) modeVal = 0;
-        else if (args[1].includes('HEAT')) modeVal = 1;
-        else if (args[1].includes('COOL')) modeVal = 2;
+        if (mode.includes('OFF')) modeVal = 0;
+        else if (mode.includes('HEAT')) modeVal = 1;
+        else if (mode.includes('COOL')) modeVal = 2;
         else modeVal = 3;
 
-        this.emit('thermostatIndoorModeChange',
-          args[0],
-          modeVal,
-          command === 'R:THERMTEMP' ? parseFloat(args[2]) : -1
-        );
+        this.emit('thermostatIndoorModeChange', message.vid, modeVal);
         break;
       }
+      case 'S:THERMFAN':
+      case 'R:GETTHERMFAN':
+      case 'R:THERMFAN':
+        this.emit('thermostatFanChange', message.vid, message.fan === 'ON');
+        break;
+      case 'S:THERMTEMP':
+      case 'R:THERMTEMP':
+        if (message.setpoint === 'HEAT' || message.setpoint === 'COOL') {
+          this.emit('thermostatSetpointChange', message.vid, message.setpoint, this.toCelsius(message.temperature));
+        }
+        break;
+      case 'S:BTN':
+        // Dry contacts report like buttons: pressed while closed, released when opened
+        this.emit('buttonStatusChange', message.vid, message.action);
+        if (message.action === 'PRESS' || message.action === 'RELEASE') {
+          this.emit('contactStatusChange', message.vid, message.action === 'PRESS');
+        }
+        break;
+      case 'S:TASK':
+        this.emit('taskStatusChange', message.vid, message.running);
+        break;
+      case 'S:VARIABLE':
+      case 'R:GETVARIABLE':
+      case 'R:VARIABLE': {
+        const value = parseFloat(message.value);
+        if (!isNaN(value)) {
+          this.emit('variableStatusChange', message.vid, value);
+        }
+        break;
+      }
+      case 'R:ERROR':
+        this.config.log.warn(`Controller returned error ${message.code}: ${message.message}`);
+        break;
+      default:
+        if (!settled) {
+          this.config.log.debug(`Unhandled message from controller: ${message.raw}`);
+          this.emit('unknownMessage', message);
+        }
+    }
+  }
+
+  private parseColor(params: string[]): VantageColor {
+    const [hue, saturation, lightness] = params.map(value => parseFloat(value));
+    if ([hue, saturation, lightness].some(value => isNaN(value))) {
+      return null;
+    }
+    return { hue, saturation, lightness };
+  }
+
+  private emitColorChange(vid: string, params: string[]): void {
+    const color = this.parseColor(params);
+    if (color) {
+      this.emit('loadColorChange', vid, color);
+    }
+  }
+
+  private emitColorTemperatureChange(vid: string, value: string): void {
+    const kelvin = parseFloat(value);
+    if (!isNaN(kelvin) && kelvin > 0) {
+      this.emit('loadColorTemperatureChange', vid, kelvin);
+    }
+  }
+
+  private emitRunningStateChange(vid: string, value: string): void {
+    const state = parseInt(value);
+    if (state >= 0 && state <= 2) {
+      this.emit('thermostatRunningStateChange', vid, state);
+    }
+  }
+
+  private emitHumidityChange(vid: string, value: string): void {
+    const humidity = parseFloat(value);
+    if (!isNaN(humidity)) {
+      this.emit('thermostatHumidityChange', vid, humidity);
     }
   }
 
@@ -144,25 +680,97 @@ export class VantageInfusion extends EventEmitter {
     // Socket will emit 'close' after error, triggering reconnection
   }
 
+  /**
+   * Discovers devices from the project file. With `usecache` the project saved by the last
+   * run brings accessories up straight away; the fresh download from the controller only
+   * triggers another `discoveryComplete` when its content differs from the cached copy.
+   */
   public async discover(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    const cached = this.config.usecache ? this.readCachedProject() : null;
+    if (cached !== null) {
+      this.config.log.info(`Loaded project from cache ${this.projectCachePath}`);
+      this.emit('discoveryComplete', this.parseProject(cached));
+    }
+
+    const fresh = await this.fetchProjectFile();
+    if (fresh === null) {
+      if (cached === null) {
+        this.emit('discoveryComplete', []);
+      } else {
+        this.config.log.warn('Could not download project from controller, using cached copy');
+      }
+      return;
+    }
+
+    if (cached !== null && this.hashString(fresh) === this.hashString(cached)) {
+      this.config.log.info('Project unchanged since the cached copy');
+      return;
+    }
+
+    this.writeCachedProject(fresh);
+    if (cached !== null) {
+      this.config.log.info('Project changed on the controller, updating accessories');
+    }
+    this.emit('discoveryComplete', this.parseProject(fresh));
+  }
+
+  private get projectCachePath(): string {
+    return path.join(this.config.storagePath || os.homedir(), 'vantage_backup.xml');
+  }
+
+  private readCachedProject(): string | null {
+    try {
+      return fs.readFileSync(this.projectCachePath, 'utf8');
+    } catch (error) {
+      this.config.log.debug(`No cached project available: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private writeCachedProject(fileContent: string): void {
+    try {
+      fs.writeFileSync(this.projectCachePath, fileContent);
+      this.config.log.info(`Saved backup file to ${this.projectCachePath}`);
+    } catch (error) {
+      this.config.log.error(`Failed to save backup file: ${(error as Error).message}`);
+    }
+  }
+
+  private parseProject(fileContent: string): VantageDevice[] {
+    const areas: Record<string, VantageArea> = {};
+    const devices: VantageDevice[] = [];
+    this.units = this.parseTemperatureUnits(fileContent);
+    this.processBackupFile(fileContent, areas, devices);
+    this.projectAreas = Object.values(areas).filter(area => area.VID !== 'default_area');
+    return devices;
+  }
+
+  // The project's temperature format applies to every thermostat and sensor on the controller
+  private parseTemperatureUnits(fileContent: string): TemperatureUnits {
+    const match = /<(?:TemperatureFormat|TemperatureUnits)>\s*(\w+)\s*<\//.exec(fileContent);
+    const units: TemperatureUnits = match && /^F/i.test(match[1]) ? 'F' : 'C';
+    this.config.log.debug(`Controller temperatures are in ${units === 'F' ? 'Fahrenheit' : 'Celsius'}`);
+    return units;
+  }
+
+  // Downloads Project.dc over the port 2001 backup interface; resolves null if it can't
+  private fetchProjectFile(): Promise<string | null> {
+    return new Promise((resolve) => {
       const configSocket = new Socket();
       let buffer = '';
-      const areas: Record<string, VantageArea> = {};
-      const devices: VantageDevice[] = [];
+      let fileContent: string | null = null;
 
-      this.config.log.info(`Attempting to connect to Vantage controller at ${this.config.ipAddress}:2001`);
+      this.config.log.info(`Attempting to connect to Vantage controller at ${this.config.ipAddress}:${this.configPort}`);
 
       // Set a connection timeout
       const connectionTimeout = setTimeout(() => {
-        this.config.log.error(`Connection to ${this.config.ipAddress}:2001 timed out`);
+        this.config.log.error(`Connection to ${this.config.ipAddress}:${this.configPort} timed out`);
         this.config.log.info('Please check if ports 2001 and 3001 are open on your Vantage controller');
         configSocket.destroy();
-        this.emit('discoveryComplete', []);
-        resolve();
+        resolve(null);
       }, 10000); // 10 second timeout
 
-      configSocket.connect({ host: this.config.ipAddress, port: 2001 }, () => {
+      configSocket.connect({ host: this.config.ipAddress, port: this.configPort }, () => {
         clearTimeout(connectionTimeout);
         this.config.log.info('Connected to Vantage controller for discovery');
 
@@ -220,25 +828,9 @@ export class VantageInfusion extends EventEmitter {
                 // this.config.log.debug('Received backup file');
 
                 // Decode the base64 file content
-                const fileContent = Buffer.from(result.IBackup.GetFile.return.File, 'base64').toString('utf8');
+                fileContent = Buffer.from(result.IBackup.GetFile.return.File, 'base64').toString('utf8');
                 // this.config.log.debug(`Decoded file content: ${fileContent.length} bytes`);
 
-                // Save the backup file to the user's home directory
-                const fs = require('fs');
-                const path = require('path');
-                const homedir = require('os').homedir();
-                const backupFilePath = path.join(homedir, 'vantage_backup.xml');
-
-                try {
-                  fs.writeFileSync(backupFilePath, fileContent);
-                  this.config.log.info(`Saved backup file to ${backupFilePath}`);
-                } catch (error) {
-                  this.config.log.error(`Failed to save backup file: ${(error as Error).message}`);
-                }
-
-                // Process the file content to extract devices
-                this.processBackupFile(fileContent, areas, devices);
-
                 // Close the connection
                 configSocket.end();
               } else {
@@ -266,14 +858,12 @@ export class VantageInfusion extends EventEmitter {
           this.config.log.info('Connection timed out. Please check your firewall settings');
         }
 
-        this.emit('discoveryComplete', []);
-        resolve();
+        resolve(null);
       });
 
       configSocket.on('close', () => {
         clearTimeout(connectionTimeout);
-        this.emit('discoveryComplete', devices);
-        resolve();
+        resolve(fileContent);
       });
     });
   }
@@ -355,7 +945,8 @@ export class VantageInfusion extends EventEmitter {
           if (vid) {
             areas[vid] = {
               VID: vid,
-              Name: areaName
+              Name: areaName,
+              Parent: areaObj.Area?.toString(),
             };
             // this.config.log.debug(`Found area: ${areaName} (VID: ${vid})`);
           }
@@ -371,7 +962,8 @@ export class VantageInfusion extends EventEmitter {
           if (vid && !areas[vid]) {
             areas[vid] = {
               VID: vid,
-              Name: areaName
+              Name: areaName,
+              Parent: obj.Area.Area?.toString(),
             };
             // this.config.log.debug(`Found standalone area: ${areaName} (VID: ${vid})`);
           }
@@ -393,7 +985,8 @@ export class VantageInfusion extends EventEmitter {
             if (vid) {
               areas[vid] = {
                 VID: vid,
-                Name: areaName
+                Name: areaName,
+                Parent: target.Area?.toString(),
               };
               // this.config.log.debug(`Found area (alt): ${areaName} (VID: ${vid})`);
             }
@@ -417,11 +1010,12 @@ export class VantageInfusion extends EventEmitter {
         // this.config.log.debug('Created default area');
       }
 
+      // Collect keypad buttons by the station they belong to
+      const buttonsByStation = this.collectButtons(objects);
+
       // SECOND PASS: Extract all devices and connect them to areas
       this.config.log.info('Second pass: Extracting devices and connecting to areas...');
-      const validTypes = ['Load', 'Thermostat', 'Blind', 'RelayBlind', 'QubeBlind'];
-      const omitList = this.config.omit ? this.config.omit.split(',').map(id => id.trim()) : [];
-      const rangeList = this.config.range ? this.config.range.split(',').map(id => parseInt(id.trim())) : [0, 999999999];
+      const validTypes = ['Load', 'Thermostat', 'Blind', 'RelayBlind', 'QubeBlind', 'Task', 'Variable', 'Temperature', 'DryContact', ...COLOR_LOAD_TYPES, ...STATION_TYPES];
 
       objects.forEach(obj => {
         // Check if it's a device we're interested in
@@ -455,12 +1049,6 @@ export class VantageInfusion extends EventEmitter {
           return; // Skip devices without a VID
         }
 
-        // Check if it's in the omit list or outside the range
-        const numVid = parseInt(vid);
-        if (omitList.includes(vid) || (!isNaN(numVid) && (numVid < rangeList[0] || numVid > rangeList[1]))) {
-          return; // Skip this device
-        }
-
         // Get the area for this device
         let areaId = '';
 
@@ -486,9 +1074,45 @@ export class VantageInfusion extends EventEmitter {
           ObjectType: deviceType,
           LoadType: deviceData.LoadType || '',
           DeviceCategory: deviceData.DeviceCategory || '',
-          Area: areas[areaId]?.Name || 'Main Area'
+          Area: areas[areaId]?.Name || 'Main Area',
+          AreaVID: areas[areaId]?.VID,
+          AreaPath: this.getAreaPath(areaId, areas),
         };
 
+        // Projects hold hundreds of helper tasks; only import the ones selected in the config
+        if (deviceType === 'Task' && !matchesSelector(vid, device.Name, this.config.tasks || [])) {
+          return;
+        }
+
+        // Thermostats wired to a humidity sensor also report indoor humidity
+        if (deviceType === 'Thermostat' && deviceData.HumiditySensor) {
+          device.HasHumidity = true;
+        }
+
+        // Variables are opt-in as well; text variables have no HomeKit equivalent
+        if (deviceType === 'Variable') {
+          if (!matchesSelector(vid, device.Name, this.config.variables || [])) {
+            return;
+          }
+          const variableType = (deviceData.VariableType || deviceData.Type || '').toString();
+          if (/bool/i.test(variableType)) {
+            device.DataType = 'boolean';
+          } else if (/text|string/i.test(variableType)) {
+            this.config.log.debug(`Skipping text variable ${device.Name} (VID: ${vid})`);
+            return;
+          } else {
+            device.DataType = 'number';
+          }
+        }
+
+        // Stations are only useful through their buttons
+        if (STATION_TYPES.includes(deviceType)) {
+          device.Buttons = buttonsByStation[vid] || [];
+          if (device.Buttons.length === 0) {
+            return;
+          }
+        }
+
         // Debug log for area lookup
         // this.config.log.debug(`Device ${device.Name} (VID: ${device.VID}): Area ID lookup = ${areaId}, resolved to "${device.Area}"`);
         if (areaId && !areas[areaId]) {
@@ -509,6 +1133,35 @@ export class VantageInfusion extends EventEmitter {
     }
   }
 
+  private collectButtons(objects: any[]): Record<string, VantageButton[]> {
+    const buttonsByStation: Record<string, VantageButton[]> = {};
+
+    objects.forEach(obj => {
+      const button = obj.Button;
+      const vid = button?._VID ?? button?.VID;
+      if (!vid || button.Parent === undefined) {
+        return;
+      }
+
+      // <Parent Position="2">500</Parent> parses to an object, a bare <Parent> to the VID itself
+      const parent = typeof button.Parent === 'object' ? button.Parent['#text'] : button.Parent;
+      const position = typeof button.Parent === 'object' ? parseInt(button.Parent._Position) : NaN;
+      if (parent === undefined) {
+        return;
+      }
+
+      const stationButtons = buttonsByStation[parent.toString()] ||= [];
+      stationButtons.push({
+        VID: vid.toString(),
+        Name: (button.Name || button.DName || `Button ${vid}`).toString(),
+        Position: isNaN(position) ? stationButtons.length + 1 : position,
+      });
+    });
+
+    Object.values(buttonsByStation).forEach(buttons => buttons.sort((a, b) => a.Position - b.Position));
+    return buttonsByStation;
+  }
+
   private extractDevicesDirectly(fileContent: string, areas: Record<string, VantageArea>, devices: VantageDevice[]): void {
     try {
       this.config.log.debug('Extracting devices directly from file content');
@@ -520,8 +1173,6 @@ export class VantageInfusion extends EventEmitter {
 
       // Extract devices
       const validTypes = ['Load', 'Thermostat', 'Blind', 'RelayBlind', 'QubeBlind'];
-      const omitList = this.config.omit ? this.config.omit.split(',').map(id => id.trim()) : [];
-      const rangeList = this.config.range ? this.config.range.split(',').map(id => parseInt(id.trim())) : [0, 999999999];
       let deviceCount = 0;
 
       for (const type of validTypes) {
@@ -558,12 +1209,6 @@ export class VantageInfusion extends EventEmitter {
             continue; // Skip if we couldn't extract name
           }
 
-          // Check if it's in the omit list or outside the range
-          const numVid = parseInt(vid);
-          if (omitList.includes(vid) || (!isNaN(numVid) && (numVid < rangeList[0] || numVid > rangeList[1]))) {
-            continue; // Skip this device
-          }
-
           // Extract area name if available
           let areaId = '';
 
@@ -600,7 +1245,9 @@ export class VantageInfusion extends EventEmitter {
             ObjectType: type,
             LoadType: loadType,
             DeviceCategory: deviceCategory,
-            Area: areas[areaId]?.Name || 'Main Area'
+            Area: areas[areaId]?.Name || 'Main Area',
+            AreaVID: areas[areaId]?.VID,
+            AreaPath: this.getAreaPath(areaId, areas),
           };
 
           devices.push(device);
@@ -616,6 +1263,19 @@ export class VantageInfusion extends EventEmitter {
     }
   }
 
+  // Walks up the parent areas, so filters on an area also cover the areas inside it
+  private getAreaPath(areaId: string, areas: Record<string, VantageArea>): string[] {
+    const path: string[] = [];
+    const visited = new Set<string>();
+
+    for (let area = areas[areaId]; area && !visited.has(area.VID); area = areas[area.Parent ?? '']) {
+      visited.add(area.VID);
+      path.unshift(area.Name);
+    }
+
+    return path.length > 0 ? path : ['Main Area'];
+  }
+
   private isValidDevice(obj: any): boolean {
     const validTypes = ['Load', 'Thermostat', 'Blind', 'RelayBlind', 'QubeBlind'];
 
@@ -678,70 +1338,169 @@ export class VantageInfusion extends EventEmitter {
     }
   }
 
-  public getLoadStatus(vid: string): void {
-    this.commandSocket.write(sprintf('GETLOAD %s\n', vid));
+  public async getLoadStatus(vid: string): Promise<number> {
+    const response = await this.queueCommand(sprintf('GETLOAD %s', vid));
+    return response.type === 'R:GETLOAD' ? response.level : NaN;
   }
 
-  public setLoadLevel(vid: string, level: number, time = 1): void {
-    // Always use the Load.Ramp command for consistency with the original implementation
-    this.commandSocket.write(sprintf('INVOKE %s Load.Ramp 6 %s %s\n', vid, time, level));
+  public async setLoadLevel(vid: string, level: number, time = 1): Promise<void> {
+    // Fades to the level over `time` seconds
+    await this.writeCommand(sprintf('INVOKE %s Load.Ramp 6 %s %s', vid, time, level), `LOAD ${vid}`, level,
+      () => this.getLoadStatus(vid));
   }
 
-  public setBlindPosition(vid: string, position: number): void {
-    this.commandSocket.write(sprintf('BLIND %s POS %s\n', vid, position));
+  public async setLoadLevelInstant(vid: string, level: number): Promise<void> {
+    await this.writeCommand(sprintf('LOAD %s %s', vid, level), `LOAD ${vid}`, level, () => this.getLoadStatus(vid));
   }
 
-  public getThermostatState(vid: string): void {
-    this.commandSocket.write(sprintf('INVOKE %s Thermostat.GetIndoorTemperature\n', vid));
-    this.commandSocket.write(sprintf('GETTHERMOP %s\n', vid));
-    this.commandSocket.write(sprintf('GETTHERMTEMP %s HEAT\n', vid));
-    this.commandSocket.write(sprintf('GETTHERMTEMP %s COOL\n', vid));
+  // Turns the load on at the preset level and fade programmed on the controller
+  public async turnOnLoad(vid: string): Promise<void> {
+    // The level is up to the controller, so any status that follows is current
+    await this.writeCommand(sprintf('INVOKE %s Load.On', vid), `LOAD ${vid}`, NaN, () => this.getLoadStatus(vid));
   }
 
-  public setThermostatMode(vid: string, mode: number): void {
-    const modeMap = {
-      0: 'OFF',
-      1: 'HEAT',
-      2: 'COOL',
-      3: 'AUTO',
+  // Closes a momentary relay for `duration` ms. A pulse that arrives late or merges with
+  // another can move a door on its own, so both edges bypass the queue and the coalescing.
+  public async pulseLoad(vid: string, duration: number): Promise<void> {
+    if (!this.connected) {
+      throw new VantageCommandError('Controller is not connected', sprintf('INVOKE %s Load.Ramp 6 0 100', vid));
+    }
+    await this.sendCommand(sprintf('INVOKE %s Load.Ramp 6 0 100', vid));
+    await new Promise(resolve => setTimeout(resolve, duration));
+    await this.sendCommand(sprintf('INVOKE %s Load.Ramp 6 0 0', vid));
+  }
+
+  public async setBlindPosition(vid: string, position: number): Promise<void> {
+    await this.writeCommand(sprintf('BLIND %s POS %s', vid, position), `BLIND ${vid}`, position,
+      () => this.getBlindPosition(vid));
+  }
+
+  public async getThermostatState(vid: string): Promise<VantageThermostatStatus> {
+    const [indoor, mode, heat, cool, running] = await Promise.all([
+      this.queueCommand(sprintf('INVOKE %s Thermostat.GetIndoorTemperature', vid)),
+      this.queueCommand(sprintf('GETTHERMOP %s', vid)),
+      this.queueCommand(sprintf('GETTHERMTEMP %s HEAT', vid)),
+      this.queueCommand(sprintf('GETTHERMTEMP %s COOL', vid)),
+      // Older thermostats do not report their running state
+      this.queueCommand(sprintf('INVOKE %s Thermostat.GetHVACState', vid)).catch(() => null),
+    ]);
+
+    const modeName = mode.type === 'R:GETTHERMOP' ? mode.mode : 'OFF';
+    const modeVal = Object.keys(THERMOSTAT_MODES).find(key => THERMOSTAT_MODES[key] === modeName);
+
+    return {
+      indoorTemperature: indoor.type === 'R:INVOKE' ? this.toCelsius(parseFloat(indoor.result)) : NaN,
+      mode: modeVal === undefined ? 3 : parseInt(modeVal),
+      heatSetpoint: heat.type === 'R:THERMTEMP' ? this.toCelsius(heat.temperature) : NaN,
+      coolSetpoint: cool.type === 'R:THERMTEMP' ? this.toCelsius(cool.temperature) : NaN,
+      runningState: running?.type === 'R:INVOKE' ? parseInt(running.result) : NaN,
     };
-    this.commandSocket.write(sprintf('THERMOP %s %s\n', vid, modeMap[mode] || 'OFF'));
-  }
-
-  public setThermostatTemperature(
-    vid: string,
-    value: number,
-    mode: number,
-    heating: number,
-    cooling: number
-  ): void {
-    if (mode === 1) {
-      this.commandSocket.write(sprintf('THERMTEMP %s HEAT %s\n', vid, value));
-    } else if (mode === 2) {
-      this.commandSocket.write(sprintf('THERMTEMP %s COOL %s\n', vid, value));
-    } else if (mode === 3) {
-      if (value > cooling) {
-        this.commandSocket.write(sprintf('THERMTEMP %s COOL %s\n', vid, value));
-      } else if (value < heating) {
-        this.commandSocket.write(sprintf('THERMTEMP %s HEAT %s\n', vid, value));
-      }
+  }
+
+  public async setThermostatMode(vid: string, mode: number): Promise<void> {
+    await this.queueCommand(sprintf('THERMOP %s %s', vid, THERMOSTAT_MODES[mode] || 'OFF'), `THERMOP ${vid}`);
+  }
+
+  public async setThermostatSetpoint(vid: string, setpoint: ThermostatSetpoint, value: number): Promise<void> {
+    const temperature = this.fromCelsius(value);
+    await this.queueCommand(sprintf('THERMTEMP %s %s %s', vid, setpoint, temperature), `THERMTEMP ${vid} ${setpoint}`);
+  }
+
+  private toCelsius(temperature: number): number {
+    if (this.units === 'C' || isNaN(temperature)) {
+      return temperature;
     }
+    return Math.round((temperature - 32) * 5 / 9 * 10) / 10;
   }
 
-  public getBlindPosition(vid: string): void {
-    this.commandSocket.write(sprintf('GETBLIND %s\n', vid));
+  // Rounded to a tenth of a degree so a HomeKit value converts to a setpoint the controller accepts
+  private fromCelsius(temperature: number): number {
+    const converted = this.units === 'C' ? temperature : temperature * 9 / 5 + 32;
+    return Math.round(converted * 10) / 10;
   }
 
-  private setupReconnection(): void {
-    this.commandSocket.on('close', () => {
-      this.config.log.warn('Connection closed, attempting to reconnect...');
-      setTimeout(() => {
-        this.commandSocket.connect({
-          host: this.config.ipAddress,
-          port: 3001
-        });
-      }, 5000); // Retry every 5 seconds
-    });
+  public async getTemperature(vid: string): Promise<number> {
+    const response = await this.queueCommand(sprintf('INVOKE %s Temperature.GetValue', vid));
+    return response.type === 'R:INVOKE' ? this.toCelsius(parseFloat(response.result)) : NaN;
+  }
+
+  public async getContactState(vid: string): Promise<boolean> {
+    const response = await this.queueCommand(sprintf('INVOKE %s DryContact.GetState', vid));
+    return response.type === 'R:INVOKE' && parseInt(response.result) > 0;
+  }
+
+  public async getThermostatFan(vid: string): Promise<boolean> {
+    const response = await this.queueCommand(sprintf('GETTHERMFAN %s', vid));
+    return response.type === 'R:GETTHERMFAN' && response.fan === 'ON';
+  }
+
+  // The fan either runs continuously (on) or only while heating or cooling (auto)
+  public async setThermostatFan(vid: string, on: boolean): Promise<void> {
+    await this.queueCommand(sprintf('THERMFAN %s %s', vid, on ? 'ON' : 'AUTO'), `THERMFAN ${vid}`);
+  }
+
+  public async getThermostatHold(vid: string): Promise<boolean> {
+    const response = await this.queueCommand(sprintf('INVOKE %s Thermostat.GetHoldMode', vid));
+    return response.type === 'R:INVOKE' && parseInt(response.result) > 0;
+  }
+
+  // Holding keeps the current setpoints instead of following the thermostat's schedule
+  public async setThermostatHold(vid: string, hold: boolean): Promise<void> {
+    await this.queueCommand(sprintf('INVOKE %s Thermostat.SetHoldMode %s', vid, hold ? 1 : 0), `THERMHOLD ${vid}`);
+  }
+
+  public async getThermostatHumidity(vid: string): Promise<number> {
+    const response = await this.queueCommand(sprintf('INVOKE %s Thermostat.GetIndoorHumidity', vid));
+    return response.type === 'R:INVOKE' ? parseFloat(response.result) : NaN;
+  }
+
+  public async startTask(vid: string): Promise<void> {
+    await this.queueCommand(sprintf('INVOKE %s Task.Start', vid), `TASK ${vid}`);
+  }
+
+  public async stopTask(vid: string): Promise<void> {
+    await this.queueCommand(sprintf('INVOKE %s Task.Stop', vid), `TASK ${vid}`);
+  }
+
+  public async getTaskState(vid: string): Promise<boolean> {
+    const response = await this.queueCommand(sprintf('INVOKE %s Task.IsRunning', vid));
+    return response.type === 'R:INVOKE' && parseInt(response.result) > 0;
+  }
+
+  public async getVariable(vid: string): Promise<number> {
+    const response = await this.queueCommand(sprintf('GETVARIABLE %s', vid));
+    return response.type === 'R:GETVARIABLE' ? parseFloat(response.value) : NaN;
+  }
+
+  public async setVariable(vid: string, value: number): Promise<void> {
+    await this.queueCommand(sprintf('VARIABLE %s %s', vid, value), `VARIABLE ${vid}`);
+  }
+
+  public async setLoadColor(vid: string, hue: number, saturation: number): Promise<void> {
+    // Brightness stays with the Load interface; 50% lightness is the pure color
+    await this.queueCommand(
+      sprintf('INVOKE %s RGBLoad.SetHSL %s %s 50', vid, Math.round(hue), Math.round(saturation)),
+      `COLOR ${vid}`,
+    );
+  }
+
+  public async getLoadColor(vid: string): Promise<VantageColor> {
+    const response = await this.queueCommand(sprintf('INVOKE %s RGBLoad.GetHSL', vid));
+    return response.type === 'R:INVOKE' ? this.parseColor(response.params) : null;
+  }
+
+  public async setColorTemperature(vid: string, kelvin: number): Promise<void> {
+    await this.queueCommand(sprintf('INVOKE %s Load.SetColorTemperature %s', vid, Math.round(kelvin)), `CCT ${vid}`);
+  }
+
+  public async getColorTemperature(vid: string): Promise<number> {
+    const response = await this.queueCommand(sprintf('INVOKE %s Load.GetColorTemperature', vid));
+    return response.type === 'R:INVOKE' ? parseFloat(response.result) : NaN;
+  }
+
+  public async getBlindPosition(vid: string): Promise<number> {
+    const response = await this.queueCommand(sprintf('GETBLIND %s', vid));
+    return response.type === 'R:GETBLIND' ? response.position : NaN;
   }
 
   private hashString(str: string): string {
@@ -797,11 +1556,14 @@ export class VantageInfusion extends EventEmitter {
     while ((areaMatch = areaRegex.exec(fileContent)) !== null) {
       const vid = areaMatch[1];
       const name = areaMatch[2];
+      // The nested <Area> element names the parent area
+      const parentMatch = /<Area>([^<]+)<\/Area>/.exec(areaMatch[0]);
 
       if (vid && !areas[vid]) {
         areas[vid] = {
           VID: vid,
-          Name: name
+          Name: name,
+          Parent: parentMatch?.[1],
         };
         areaCount++;
         // this.config.log.debug(`Found top-level area: ${name} (VID: ${vid})`);
@@ -0,0 +1,733 @@
+import { AdaptiveLightingController, Characteristic, HAPStatus, Service } from 'hap-nodejs';
+import { VantageInfusion } from '../src/vantageInfusion';
+import { VantagePlatform } from '../src/platform';
+import { VantageLoad } from '../src/accessories/load';
+import { VantageSwitch } from '../src/accessories/switch';
+import { VantageBlind } from '../src/accessories/blind';
+import { VantageThermostat } from '../src/accessories/thermostat';
+import { VantageKeypad } from '../src/accessories/keypad';
+import { VantageTask } from '../src/accessories/task';
+import { VantageVariable } from '../src/accessories/variable';
+import { VantageTemperatureSensor } from '../src/accessories/temperature';
+import { VantageContactSensor } from '../src/accessories/contact';
+import { VantageGarageDoor } from '../src/accessories/garageDoor';
+import { VantageAreaSwitch } from '../src/accessories/area';
+import { BrightnessCurve } from '../src/brightnessCurve';
+import { MockInfusionController } from './mockController';
+import { createInfusion, createPlatform, waitForEvent, waitForState } from './helpers';
+
+function service(accessory: { getServices(): Service[] }, type: { UUID: string }): Service {
+  return accessory.getServices().find(candidate => candidate.UUID === type.UUID)!;
+}
+
+describe('accessories', () => {
+  let controller: MockInfusionController;
+  let infusion: VantageInfusion;
+  let platform: VantagePlatform;
+
+  beforeEach(async () => {
+    controller = new MockInfusionController();
+    await controller.start();
+    infusion = createInfusion(controller);
+    platform = createPlatform(infusion);
+    await waitForState(infusion, 'subscribed');
+  });
+
+  afterEach(async () => {
+    infusion.close();
+    await controller.stop();
+  });
+
+  describe('VantageLoad', () => {
+    it('requests its initial level and reflects status updates', async () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+      const lightbulb = service(load, Service.Lightbulb);
+
+      expect(await controller.waitForCommand('GETLOAD')).toBe('GETLOAD 101');
+
+      load.updateState(55);
+      expect(lightbulb.getCharacteristic(Characteristic.On).value).toBe(true);
+      expect(lightbulb.getCharacteristic(Characteristic.Brightness).value).toBe(55);
+
+      load.updateState(0);
+      expect(lightbulb.getCharacteristic(Characteristic.On).value).toBe(false);
+    });
+
+    it('ramps the load when brightness is set', async () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+      const lightbulb = service(load, Service.Lightbulb);
+      const status = waitForEvent(infusion, 'loadStatusChange', (vid, level) => level === 35);
+
+      await lightbulb.getCharacteristic(Characteristic.Brightness).handleSetRequest(35);
+
+      expect(await status).toEqual(['101', 35]);
+      expect(controller.loads.get('101')).toBe(35);
+    });
+
+    it('reports a failed write as a communication failure', async () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+      const brightness = service(load, Service.Lightbulb).getCharacteristic(Characteristic.Brightness);
+      controller.failing.add('INVOKE 101');
+
+      await expect(brightness.handleSetRequest(35)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    });
+
+    it('fails reads and writes while the controller is unreachable', async () => {
+      infusion.close();
+      infusion = createInfusion(controller, { reconnectDelay: 1000 });
+      platform = createPlatform(infusion);
+      await waitForState(infusion, 'subscribed');
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+      const on = service(load, Service.Lightbulb).getCharacteristic(Characteristic.On);
+      controller.disconnectClients();
+      await waitForState(infusion, 'backoff');
+      controller.received.length = 0;
+
+      await expect(on.handleGetRequest()).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      expect(controller.received.filter(line => line.startsWith('INVOKE 101'))).toEqual([]);
+    });
+
+    it('queues writes made while connecting and sends them once the session is up', async () => {
+      infusion.close();
+      infusion = createInfusion(controller);
+      platform = createPlatform(infusion);
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+
+      await service(load, Service.Lightbulb).getCharacteristic(Characteristic.Brightness).handleSetRequest(35);
+
+      expect(controller.loads.get('101')).toBe(35);
+    });
+
+    it('rolls back the brightness when a write fails', async () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+      const lightbulb = service(load, Service.Lightbulb);
+      load.updateState(40);
+      controller.failing.add('INVOKE 101');
+
+      await expect(lightbulb.getCharacteristic(Characteristic.Brightness).handleSetRequest(80)).rejects.toBeDefined();
+
+      await expect(lightbulb.getCharacteristic(Characteristic.Brightness).handleGetRequest()).resolves.toBe(40);
+      await expect(lightbulb.getCharacteristic(Characteristic.On).handleGetRequest()).resolves.toBe(true);
+    });
+
+    it('keeps status received while a failing write was in flight', async () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+      const brightness = service(load, Service.Lightbulb).getCharacteristic(Characteristic.Brightness);
+      load.updateState(40);
+      controller.silent.add('INVOKE 101');
+
+      const write = brightness.handleSetRequest(80);
+      load.updateState(55);
+
+      await expect(write).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      await expect(brightness.handleGetRequest()).resolves.toBe(55);
+    });
+
+    it('turns on at full brightness from off', async () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+      const lightbulb = service(load, Service.Lightbulb);
+      load.updateState(0);
+
+      await lightbulb.getCharacteristic(Characteristic.On).handleSetRequest(true);
+
+      expect(await controller.waitForCommand('INVOKE 101')).toBe('INVOKE 101 Load.Ramp 6 1 100');
+    });
+
+    it('restores the last level when turned on from off', async () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' });
+      const lightbulb = service(load, Service.Lightbulb);
+      load.updateState(60);
+      load.updateState(0);
+
+      await lightbulb.getCharacteristic(Characteristic.On).handleSetRequest(true);
+
+      expect(controller.received).toContain('INVOKE 101 Load.Ramp 6 1 60');
+    });
+
+    it('fades up and down with their own ramp times', async () => {
+      const options = { rampUpTime: 3, rampDownTime: 0.5 };
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' }, options);
+      const lightbulb = service(load, Service.Lightbulb);
+      load.updateState(0);
+
+      await lightbulb.getCharacteristic(Characteristic.Brightness).handleSetRequest(80);
+      await lightbulb.getCharacteristic(Characteristic.On).handleSetRequest(false);
+
+      expect(controller.received).toEqual(expect.arrayContaining([
+        'INVOKE 101 Load.Ramp 6 3 80',
+        'INVOKE 101 Load.Ramp 6 0.5 0',
+      ]));
+    });
+
+    it('turns on at a fixed level without fading in instant mode', async () => {
+      const options = { onLevel: 'fixed' as const, fixedLevel: 40, rampMode: 'instant' as const };
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' }, options);
+      load.updateState(75);
+      load.updateState(0);
+
+      await service(load, Service.Lightbulb).getCharacteristic(Characteristic.On).handleSetRequest(true);
+
+      expect(controller.received).toContain('LOAD 101 40');
+      expect(controller.loads.get('101')).toBe(40);
+    });
+
+    it('leaves the level to the controller preset', async () => {
+      controller.presets.set('103', 75);
+      const load = new VantageLoad(platform, { name: 'Living Room Ceiling Fan', vid: '103', type: 'dimmer' }, { onLevel: 'preset' });
+      load.updateState(0);
+      const status = waitForEvent(infusion, 'loadStatusChange', (vid, level) => level === 75);
+
+      await service(load, Service.Fan).getCharacteristic(Characteristic.On).handleSetRequest(true);
+
+      expect(controller.received).toContain('INVOKE 103 Load.On');
+      expect(await status).toEqual(['103', 75]);
+    });
+
+    it('maps brightness through its trim and curve both ways', async () => {
+      const curve = new BrightnessCurve({ lowTrim: 20, curve: 'square' });
+      const load = new VantageLoad(platform, { name: 'Kitchen Pendants', vid: '101', type: 'dimmer' }, { curve });
+      const brightness = service(load, Service.Lightbulb).getCharacteristic(Characteristic.Brightness);
+
+      await brightness.handleSetRequest(50);
+      expect(controller.received).toContain('INVOKE 101 Load.Ramp 6 1 40');
+
+      load.updateState(40);
+      expect(brightness.value).toBe(50);
+    });
+
+    it('exposes fans with a rotation speed', async () => {
+      const load = new VantageLoad(platform, { name: 'Living Room Ceiling Fan', vid: '103', type: 'dimmer' });
+      const fan = service(load, Service.Fan);
+
+      await fan.getCharacteristic(Characteristic.RotationSpeed).handleSetRequest(50);
+      expect(await controller.waitForCommand('INVOKE 103')).toBe('INVOKE 103 Load.Ramp 6 1 50');
+
+      load.updateState(75);
+      expect(fan.getCharacteristic(Characteristic.RotationSpeed).value).toBe(75);
+      expect(load.getModel()).toBe('Fan');
+    });
+
+    it('takes its service type from the options over the name', () => {
+      const fan = new VantageLoad(platform, { name: 'Kitchen Extractor', vid: '101', type: 'dimmer' }, { fan: true });
+      const light = new VantageLoad(platform, { name: 'Fanlight', vid: '103', type: 'dimmer' }, { fan: false });
+
+      expect(service(fan, Service.Fan)).toBeDefined();
+      expect(service(light, Service.Lightbulb)).toBeDefined();
+      expect(light.getModel()).toBe('Dimmable Light');
+    });
+  });
+
+  describe('VantageSwitch', () => {
+    it('switches the relay fully on and off', async () => {
+      const relay = new VantageSwitch(platform, { name: 'Kitchen Disposal', vid: '102', type: 'relay' });
+      const on = service(relay, Service.Switch).getCharacteristic(Characteristic.On);
+
+      await on.handleSetRequest(true);
+      expect(await controller.waitForCommand('INVOKE 102')).toBe('INVOKE 102 Load.Ramp 6 1 100');
+
+      relay.updateState(false);
+      expect(on.value).toBe(false);
+    });
+
+    it('can be exposed as an outlet', async () => {
+      const relay = new VantageSwitch(platform, { name: 'Kitchen Disposal', vid: '102', type: 'relay' }, 'outlet');
+      const on = service(relay, Service.Outlet).getCharacteristic(Characteristic.On);
+
+      await on.handleSetRequest(true);
+      expect(await controller.waitForCommand('INVOKE 102')).toBe('INVOKE 102 Load.Ramp 6 1 100');
+      expect(relay.getModel()).toBe('Outlet');
+    });
+
+    it('can be exposed as a valve', async () => {
+      const relay = new VantageSwitch(platform, { name: 'Garden Sprinkler', vid: '102', type: 'relay' }, 'valve');
+      const valve = service(relay, Service.Valve);
+
+      await valve.getCharacteristic(Characteristic.Active).handleSetRequest(Characteristic.Active.ACTIVE);
+      expect(await controller.waitForCommand('INVOKE 102')).toBe('INVOKE 102 Load.Ramp 6 1 100');
+
+      relay.updateState(true);
+      expect(valve.getCharacteristic(Characteristic.InUse).value).toBe(Characteristic.InUse.IN_USE);
+      relay.updateState(false);
+      expect(valve.getCharacteristic(Characteristic.Active).value).toBe(Characteristic.Active.INACTIVE);
+    });
+  });
+
+  describe('VantageBlind', () => {
+    it('moves to the target position and settles on status', async () => {
+      const blind = new VantageBlind(platform, { name: 'Living Room Shade', vid: '201', type: 'blind' });
+      const covering = service(blind, Service.WindowCovering);
+      expect(await controller.waitForCommand('GETBLIND')).toBe('GETBLIND 201');
+
+      const status = waitForEvent(infusion, 'blindStatusChange', (vid, position) => position === 20);
+      await covering.getCharacteristic(Characteristic.TargetPosition).handleSetRequest(20);
+      expect(covering.getCharacteristic(Characteristic.PositionState).value).toBe(0);
+
+      const [, position] = await status;
+      blind.updatePosition(position);
+      expect(covering.getCharacteristic(Characteristic.CurrentPosition).value).toBe(20);
+      expect(covering.getCharacteristic(Characteristic.PositionState).value)
+        .toBe(Characteristic.PositionState.STOPPED);
+    });
+
+    it('drives a motor load by its level', async () => {
+      const blind = new VantageBlind(platform, { name: 'Living Room Screen', vid: '103', type: 'dimmer' }, { load: true });
+      expect(await controller.waitForCommand('GETLOAD')).toBe('GETLOAD 103');
+
+      await service(blind, Service.WindowCovering).getCharacteristic(Characteristic.TargetPosition).handleSetRequest(40);
+      expect(await controller.waitForCommand('INVOKE 103')).toBe('INVOKE 103 Load.Ramp 6 1 40');
+    });
+  });
+
+  describe('VantageLoad (RGB)', () => {
+    it('exposes hue and saturation and follows color changes', async () => {
+      const load = new VantageLoad(platform, { name: 'Living Room Cove', vid: '106', type: 'rgb' });
+      const lightbulb = service(load, Service.Lightbulb);
+      expect(await controller.waitForCommand('INVOKE 106 RGBLoad.GetHSL')).toBeDefined();
+
+      await lightbulb.getCharacteristic(Characteristic.Hue).handleSetRequest(120);
+      await lightbulb.getCharacteristic(Characteristic.Saturation).handleSetRequest(60);
+      expect(controller.colors.get('106')).toEqual([120, 60, 50]);
+
+      load.updateColor({ hue: 300, saturation: 100, lightness: 50 });
+      expect(lightbulb.getCharacteristic(Characteristic.Hue).value).toBe(300);
+      expect(lightbulb.getCharacteristic(Characteristic.Saturation).value).toBe(100);
+      expect(lightbulb.testCharacteristic(Characteristic.Brightness)).toBe(true);
+    });
+  });
+
+  describe('VantageLoad (tunable white)', () => {
+    it('converts color temperature between mireds and Kelvin', async () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Task Lights', vid: '107', type: 'tunable' });
+      const temperature = service(load, Service.Lightbulb).getCharacteristic(Characteristic.ColorTemperature);
+      expect(await controller.waitForCommand('INVOKE 107 Load.GetColorTemperature')).toBeDefined();
+      expect(temperature.props).toMatchObject({ minValue: 154, maxValue: 370 });
+
+      await temperature.handleSetRequest(250);
+      expect(controller.colorTemperatures.get('107')).toBe(4000);
+
+      load.updateColorTemperature(5000);
+      expect(temperature.value).toBe(200);
+    });
+
+    it('disables Adaptive Lighting when the color temperature changes outside HomeKit', () => {
+      const load = new VantageLoad(platform, { name: 'Kitchen Task Lights', vid: '107', type: 'tunable' });
+      const [adaptiveLighting] = load.getControllers() as AdaptiveLightingController[];
+      jest.spyOn(adaptiveLighting, 'isAdaptiveLightingActive').mockReturnValue(true);
+      const disable = jest.spyOn(adaptiveLighting, 'disableAdaptiveLighting').mockImplementation(() => undefined);
+
+      // The controller echoing our own value back is not a manual change
+      load.updateColorTemperature(2700);
+      expect(disable).not.toHaveBeenCalled();
+
+      load.updateColorTemperature(6500);
+      expect(disable).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('VantageTask', () => {
+    it('starts the task when switched on and follows its running state', async () => {
+      const task = new VantageTask(platform, { name: 'Movie', vid: '501', type: 'task' });
+      const on = service(task, Service.Switch).getCharacteristic(Characteristic.On);
+      expect(await controller.waitForCommand('INVOKE 501 Task.IsRunning')).toBeDefined();
+
+      await on.handleSetRequest(true);
+      expect(controller.tasks.get('501')).toBe(true);
+
+      await on.handleSetRequest(false);
+      expect(controller.tasks.get('501')).toBe(false);
+
+      task.updateState(true);
+      expect(on.value).toBe(true);
+    });
+  });
+
+  describe('VantageVariable', () => {
+    it('maps boolean variables to a switch', async () => {
+      const variable = new VantageVariable(platform, { name: 'Vacation Mode', vid: '601', type: 'variable' }, 'switch');
+      const on = service(variable, Service.Switch).getCharacteristic(Characteristic.On);
+      expect(await controller.waitForCommand('GETVARIABLE 601')).toBeDefined();
+
+      await on.handleSetRequest(true);
+      expect(controller.variables.get('601')).toBe(1);
+
+      variable.updateState(0);
+      expect(on.value).toBe(false);
+    });
+
+    it('shows read-only numeric variables as a sensor', () => {
+      const variable = new VantageVariable(platform, { name: 'Guest Count', vid: '602', type: 'variable' }, 'sensor');
+      const level = service(variable, Service.LightSensor).getCharacteristic(Characteristic.CurrentAmbientLightLevel);
+
+      variable.updateState(4);
+      expect(level.value).toBe(4);
+
+      // Zero is below the characteristic's minimum
+      variable.updateState(0);
+      expect(level.value).toBe(0.0001);
+    });
+
+    it('writes numeric variables through brightness and restores the last value', async () => {
+      const variable = new VantageVariable(platform, { name: 'Guest Count', vid: '602', type: 'variable' }, 'value');
+      const lightbulb = service(variable, Service.Lightbulb);
+
+      await lightbulb.getCharacteristic(Characteristic.Brightness).handleSetRequest(40);
+      expect(controller.variables.get('602')).toBe(40);
+
+      await lightbulb.getCharacteristic(Characteristic.On).handleSetRequest(false);
+      expect(controller.variables.get('602')).toBe(0);
+
+      await lightbulb.getCharacteristic(Characteristic.On).handleSetRequest(true);
+      expect(controller.variables.get('602')).toBe(40);
+    });
+  });
+
+  describe('VantageTemperatureSensor', () => {
+    it('requests its initial reading and shows temperatures below freezing', async () => {
+      const sensor = new VantageTemperatureSensor(platform, { name: 'Outdoor', vid: '701', type: 'temperature' });
+      const temperature = service(sensor, Service.TemperatureSensor).getCharacteristic(Characteristic.CurrentTemperature);
+      expect(await controller.waitForCommand('INVOKE 701')).toBe('INVOKE 701 Temperature.GetValue');
+
+      sensor.updateTemperature(-12.5);
+      expect(temperature.value).toBe(-12.5);
+    });
+  });
+
+  describe('VantageContactSensor', () => {
+    it('shows a closed contact as contact detected', async () => {
+      const contact = new VantageContactSensor(platform, { name: 'Garage Door Contact', vid: '801', type: 'contact' });
+      const state = service(contact, Service.ContactSensor).getCharacteristic(Characteristic.ContactSensorState);
+      expect(await controller.waitForCommand('INVOKE 801')).toBe('INVOKE 801 DryContact.GetState');
+
+      contact.updateState(true);
+      expect(state.value).toBe(Characteristic.ContactSensorState.CONTACT_DETECTED);
+      contact.updateState(false);
+      expect(state.value).toBe(Characteristic.ContactSensorState.CONTACT_NOT_DETECTED);
+    });
+
+    it('reports a fault while the controller is unreachable', () => {
+      const contact = new VantageContactSensor(platform, { name: 'Garage Door Contact', vid: '801', type: 'contact' });
+      const fault = service(contact, Service.ContactSensor).getCharacteristic(Characteristic.StatusFault);
+
+      contact.updateConnection(false);
+      expect(fault.value).toBe(Characteristic.StatusFault.GENERAL_FAULT);
+      contact.updateConnection(true);
+      expect(fault.value).toBe(Characteristic.StatusFault.NO_FAULT);
+    });
+
+    it('exposes the sensor type chosen in config', () => {
+      const motion = new VantageContactSensor(platform, { name: 'Hall Motion', vid: '802', type: 'contact' }, 'motion');
+      motion.updateState(true);
+      expect(service(motion, Service.MotionSensor).getCharacteristic(Characteristic.MotionDetected).value).toBe(true);
+
+      const leak = new VantageContactSensor(platform, { name: 'Water Heater', vid: '803', type: 'contact' }, 'leak');
+      leak.updateState(true);
+      expect(service(leak, Service.LeakSensor).getCharacteristic(Characteristic.LeakDetected).value)
+        .toBe(Characteristic.LeakDetected.LEAK_DETECTED);
+    });
+
+    it('treats an open normally-closed contact as detected when inverted', () => {
+      const occupancy = new VantageContactSensor(platform, { name: 'Office', vid: '804', type: 'contact' }, 'occupancy', true);
+      const detected = service(occupancy, Service.OccupancySensor).getCharacteristic(Characteristic.OccupancyDetected);
+
+      occupancy.updateState(false);
+      expect(detected.value).toBe(Characteristic.OccupancyDetected.OCCUPANCY_DETECTED);
+      occupancy.updateState(true);
+      expect(detected.value).toBe(Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED);
+    });
+  });
+
+  describe('VantageGarageDoor', () => {
+    const options = { contact: '801', pulseTime: 0.01, travelTime: 0.1 };
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    function create(): { door: VantageGarageDoor; opener: Service } {
+      const door = new VantageGarageDoor(platform, { name: 'Garage Door', vid: '108', type: 'garage' }, options);
+      door.updateContact(true);
+      return { door, opener: service(door, Service.GarageDoorOpener) };
+    }
+
+    it('pulses the relay and opens once the travel time has passed', async () => {
+      const { door, opener } = create();
+      const current = opener.getCharacteristic(Characteristic.CurrentDoorState);
+      expect(current.value).toBe(Characteristic.CurrentDoorState.CLOSED);
+
+      await opener.getCharacteristic(Characteristic.TargetDoorState).handleSetRequest(Characteristic.TargetDoorState.OPEN);
+      expect(controller.received).toEqual(expect.arrayContaining([
+        'INVOKE 108 Load.Ramp 6 0 100',
+        'INVOKE 108 Load.Ramp 6 0 0',
+      ]));
+      expect(current.value).toBe(Characteristic.CurrentDoorState.OPENING);
+
+      door.updateContact(false);
+      await delay(150);
+      expect(current.value).toBe(Characteristic.CurrentDoorState.OPEN);
+    });
+
+    it('refuses to pulse the relay until the session is up', async () => {
+      infusion.close();
+      infusion = createInfusion(controller);
+      platform = createPlatform(infusion);
+      const { opener } = create();
+      const current = opener.getCharacteristic(Characteristic.CurrentDoorState);
+
+      await expect(opener.getCharacteristic(Characteristic.TargetDoorState).handleSetRequest(Characteristic.TargetDoorState.OPEN))
+        .rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      await waitForState(infusion, 'subscribed');
+      await delay(50);
+
+      expect(controller.received.filter(line => line.startsWith('INVOKE 108'))).toEqual([]);
+      expect(current.value).toBe(Characteristic.CurrentDoorState.CLOSED);
+    });
+
+    it('closes when the contact closes and reports an obstruction when it does not', async () => {
+      const { door, opener } = create();
+      const current = opener.getCharacteristic(Characteristic.CurrentDoorState);
+      const target = opener.getCharacteristic(Characteristic.TargetDoorState);
+      door.updateContact(false);
+      await delay(150);
+
+      await target.handleSetRequest(Characteristic.TargetDoorState.CLOSED);
+      expect(current.value).toBe(Characteristic.CurrentDoorState.CLOSING);
+      await delay(150);
+      expect(opener.getCharacteristic(Characteristic.ObstructionDetected).value).toBe(true);
+      expect(current.value).toBe(Characteristic.CurrentDoorState.OPEN);
+
+      await target.handleSetRequest(Characteristic.TargetDoorState.CLOSED);
+      door.updateContact(true);
+      expect(current.value).toBe(Characteristic.CurrentDoorState.CLOSED);
+      expect(opener.getCharacteristic(Characteristic.ObstructionDetected).value).toBe(false);
+    });
+
+    it('follows a door opened from the wall button', async () => {
+      const { door, opener } = create();
+
+      door.updateContact(false);
+      expect(opener.getCharacteristic(Characteristic.TargetDoorState).value).toBe(Characteristic.TargetDoorState.OPEN);
+      expect(opener.getCharacteristic(Characteristic.CurrentDoorState).value).toBe(Characteristic.CurrentDoorState.OPENING);
+      await delay(150);
+      expect(opener.getCharacteristic(Characteristic.CurrentDoorState).value).toBe(Characteristic.CurrentDoorState.OPEN);
+    });
+  });
+
+  describe('VantageAreaSwitch', () => {
+    it('is on while any load is on and switches all of them', async () => {
+      const loads = new Map([
+        ['101', new VantageLoad(platform, { name: 'Pendants', vid: '101', type: 'dimmer' })],
+        ['107', new VantageLoad(platform, { name: 'Task Lights', vid: '107', type: 'dimmer' }, { onLevel: 'fixed', fixedLevel: 60 })],
+      ]);
+      const area = new VantageAreaSwitch(platform, { name: 'Kitchen', vid: '2', type: 'area' }, ['101', '107'],
+        (vid, on) => loads.get(vid).setPower(on), new Map());
+      const on = service(area, Service.Switch).getCharacteristic(Characteristic.On);
+
+      area.updateLoad('101', 0);
+      area.updateLoad('107', 40);
+      expect(on.value).toBe(true);
+      area.updateLoad('107', 0);
+      expect(on.value).toBe(false);
+
+      await on.handleSetRequest(true);
+      expect(controller.received).toEqual(expect.arrayContaining([
+        'INVOKE 101 Load.Ramp 6 1 100',
+        'INVOKE 107 Load.Ramp 6 1 60',
+      ]));
+    });
+
+    it('starts from the last levels reported for its loads', () => {
+      const area = new VantageAreaSwitch(platform, { name: 'Kitchen', vid: '2', type: 'area' }, ['101', '107'],
+        () => Promise.resolve(), new Map([['101', 0], ['107', 25], ['108', 80]]));
+
+      expect(service(area, Service.Switch).getCharacteristic(Characteristic.On).value).toBe(true);
+    });
+  });
+
+  describe('VantageKeypad', () => {
+    const buttons = [
+      { VID: '411', Name: 'Lights On', Position: 1 },
+      { VID: '412', Name: 'All Off', Position: 2 },
+    ];
+    let keypad: VantageKeypad;
+    let events: number[];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      keypad = new VantageKeypad(platform, { name: 'Kitchen Keypad', vid: '401', type: 'keypad' }, buttons);
+      events = [];
+      const switchService = keypad.getServices().find(candidate => candidate.subtype === '411')!;
+      switchService.getCharacteristic(Characteristic.ProgrammableSwitchEvent)
+        .on('change', change => events.push(change.newValue as number));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('creates a labelled programmable switch per button', () => {
+      const switches = keypad.getServices().filter(candidate => candidate.UUID === Service.StatelessProgrammableSwitch.UUID);
+
+      expect(switches.map(candidate => candidate.displayName)).toEqual(['Lights On', 'All Off']);
+      expect(switches.map(candidate => candidate.getCharacteristic(Characteristic.ServiceLabelIndex).value)).toEqual([1, 2]);
+      expect(service(keypad, Service.ServiceLabel)).toBeDefined();
+      expect(switches.map(candidate => candidate.subtype)).toEqual(['411', '412']);
+    });
+
+    it('reports a single press once the double press window has passed', () => {
+      keypad.handleButtonEvent('411', 'PRESS');
+      keypad.handleButtonEvent('411', 'RELEASE');
+      expect(events).toEqual([]);
+
+      jest.advanceTimersByTime(600);
+      expect(events).toEqual([Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS]);
+    });
+
+    it('reports two quick presses as a double press', () => {
+      keypad.handleButtonEvent('411', 'PRESS');
+      keypad.handleButtonEvent('411', 'RELEASE');
+      jest.advanceTimersByTime(200);
+      keypad.handleButtonEvent('411', 'PRESS');
+      keypad.handleButtonEvent('411', 'RELEASE');
+      jest.advanceTimersByTime(1000);
+
+      expect(events).toEqual([Characteristic.ProgrammableSwitchEvent.DOUBLE_PRESS]);
+    });
+
+    it('reports a hold as a long press', () => {
+      keypad.handleButtonEvent('411', 'PRESS');
+      keypad.handleButtonEvent('411', 'HOLD');
+      keypad.handleButtonEvent('411', 'RELEASE');
+      jest.advanceTimersByTime(1000);
+
+      expect(events).toEqual([Characteristic.ProgrammableSwitchEvent.LONG_PRESS]);
+    });
+
+    it('reports a slow release as a long press', () => {
+      keypad.handleButtonEvent('411', 'PRESS');
+      jest.advanceTimersByTime(1500);
+      keypad.handleButtonEvent('411', 'RELEASE');
+      jest.advanceTimersByTime(1000);
+
+      expect(events).toEqual([Characteristic.ProgrammableSwitchEvent.LONG_PRESS]);
+    });
+  });
+
+  describe('VantageThermostat', () => {
+    it('reflects temperature and mode updates and writes the mode', async () => {
+      const thermostat = new VantageThermostat(platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' });
+      const thermostatService = service(thermostat, Service.Thermostat);
+      expect(await controller.waitForCommand('GETTHERMOP')).toBe('GETTHERMOP 301');
+
+      thermostat.updateTemperature(21.5);
+      thermostat.updateMode(2);
+      expect(thermostatService.getCharacteristic(Characteristic.CurrentTemperature).value).toBe(21.5);
+      expect(thermostatService.getCharacteristic(Characteristic.TargetHeatingCoolingState).value).toBe(2);
+      expect(thermostatService.getCharacteristic(Characteristic.CurrentHeatingCoolingState).value)
+        .toBe(Characteristic.CurrentHeatingCoolingState.OFF);
+
+      await thermostatService.getCharacteristic(Characteristic.TargetHeatingCoolingState).handleSetRequest(1);
+      expect(await controller.waitForCommand('THERMOP')).toBe('THERMOP 301 HEAT');
+    });
+
+    it('writes the heat setpoint in heat mode', async () => {
+      const thermostat = new VantageThermostat(platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' });
+      const thermostatService = service(thermostat, Service.Thermostat);
+      thermostat.updateMode(1);
+
+      await thermostatService.getCharacteristic(Characteristic.TargetTemperature).handleSetRequest(20);
+      expect(await controller.waitForCommand('THERMTEMP')).toBe('THERMTEMP 301 HEAT 20');
+      expect(controller.thermostats.get('301')?.heat).toBe(20);
+    });
+
+    it('edits both setpoints and shows them as thresholds', async () => {
+      const thermostat = new VantageThermostat(platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' });
+      const thermostatService = service(thermostat, Service.Thermostat);
+      thermostat.updateMode(3);
+
+      await thermostatService.getCharacteristic(Characteristic.HeatingThresholdTemperature).handleSetRequest(18);
+      await thermostatService.getCharacteristic(Characteristic.CoolingThresholdTemperature).handleSetRequest(26);
+      expect(controller.thermostats.get('301')).toMatchObject({ heat: 18, cool: 26 });
+
+      thermostat.updateSetpoint('HEAT', 19);
+      thermostat.updateSetpoint('COOL', 25);
+      expect(thermostatService.getCharacteristic(Characteristic.HeatingThresholdTemperature).value).toBe(19);
+      expect(thermostatService.getCharacteristic(Characteristic.CoolingThresholdTemperature).value).toBe(25);
+      expect(thermostatService.getCharacteristic(Characteristic.TargetTemperature).value).toBe(22);
+    });
+
+    it('shifts the setpoint band when the target is moved in auto mode', async () => {
+      const thermostat = new VantageThermostat(platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' });
+      const thermostatService = service(thermostat, Service.Thermostat);
+      thermostat.updateMode(3);
+      thermostat.updateSetpoint('HEAT', 19);
+      thermostat.updateSetpoint('COOL', 25);
+
+      await thermostatService.getCharacteristic(Characteristic.TargetTemperature).handleSetRequest(23);
+      expect(controller.thermostats.get('301')).toMatchObject({ heat: 20, cool: 26 });
+    });
+
+    it('accepts setpoints above the HAP default heating range', async () => {
+      const thermostat = new VantageThermostat(platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' });
+      const thermostatService = service(thermostat, Service.Thermostat);
+
+      thermostat.updateSetpoint('HEAT', 26.7);
+      expect(thermostatService.getCharacteristic(Characteristic.HeatingThresholdTemperature).value).toBeCloseTo(26.7);
+      expect(thermostatService.getCharacteristic(Characteristic.TargetTemperature).props.minValue).toBe(5);
+    });
+
+    it('controls the fan and schedule hold and shows humidity when available', async () => {
+      const thermostat = new VantageThermostat(
+        platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' }, { humidity: true });
+      const fan = service(thermostat, Service.Fanv2);
+      const hold = service(thermostat, Service.Switch);
+      expect(await controller.waitForCommand('INVOKE 301 Thermostat.GetIndoorHumidity')).toBeDefined();
+
+      await fan.getCharacteristic(Characteristic.TargetFanState).handleSetRequest(Characteristic.TargetFanState.MANUAL);
+      expect(controller.thermostats.get('301')?.fan).toBe('ON');
+      await fan.getCharacteristic(Characteristic.Active).handleSetRequest(Characteristic.Active.INACTIVE);
+      expect(controller.thermostats.get('301')?.fan).toBe('AUTO');
+
+      await hold.getCharacteristic(Characteristic.On).handleSetRequest(true);
+      expect(controller.thermostats.get('301')?.hold).toBe(true);
+
+      thermostat.updateFan(true);
+      thermostat.updateHumidity(47);
+      expect(fan.getCharacteristic(Characteristic.Active).value).toBe(Characteristic.Active.ACTIVE);
+      expect(service(thermostat, Service.HumiditySensor).getCharacteristic(Characteristic.CurrentRelativeHumidity).value).toBe(47);
+    });
+
+    it('shows temperatures in the controller unit', async () => {
+      infusion['units'] = 'F';
+      const thermostat = new VantageThermostat(platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' });
+      const units = service(thermostat, Service.Thermostat).getCharacteristic(Characteristic.TemperatureDisplayUnits);
+      expect(units.value).toBe(Characteristic.TemperatureDisplayUnits.FAHRENHEIT);
+
+      await units.handleSetRequest(Characteristic.TemperatureDisplayUnits.CELSIUS);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(units.value).toBe(Characteristic.TemperatureDisplayUnits.FAHRENHEIT);
+    });
+
+    it('omits the humidity sensor for thermostats without one', () => {
+      const thermostat = new VantageThermostat(platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' });
+
+      expect(service(thermostat, Service.HumiditySensor)).toBeUndefined();
+    });
+
+    it('shows the running state instead of the mode as the current state', () => {
+      const thermostat = new VantageThermostat(platform, { name: 'Living Room Thermostat', vid: '301', type: 'thermostat' });
+      const current = service(thermostat, Service.Thermostat).getCharacteristic(Characteristic.CurrentHeatingCoolingState);
+
+      // Heat mode at setpoint is idle
+      thermostat.updateSetpoint('HEAT', 21);
+      thermostat.updateTemperature(21);
+      thermostat.updateMode(1);
+      expect(current.value).toBe(Characteristic.CurrentHeatingCoolingState.OFF);
+
+      // Estimated from the temperature until the controller reports the real state
+      thermostat.updateTemperature(19);
+      expect(current.value).toBe(Characteristic.CurrentHeatingCoolingState.HEAT);
+
+      thermostat.updateRunningState(0);
+      thermostat.updateTemperature(18);
+      expect(current.value).toBe(Characteristic.CurrentHeatingCoolingState.OFF);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { BrightnessCurve } from '../src/brightnessCurve';
+
+describe('BrightnessCurve', () => {
+  it('passes levels through without trim or curve', () => {
+    const curve = new BrightnessCurve();
+
+    expect(curve.toLevel(42)).toBe(42);
+    expect(curve.toBrightness(42)).toBe(42);
+  });
+
+  it('scales brightness into the trimmed range and keeps off at zero', () => {
+    const curve = new BrightnessCurve({ lowTrim: 15, highTrim: 90 });
+
+    expect(curve.toLevel(0)).toBe(0);
+    expect(curve.toLevel(1)).toBe(15.75);
+    expect(curve.toLevel(100)).toBe(90);
+    expect(curve.toBrightness(10)).toBe(1);
+    expect(curve.toBrightness(100)).toBe(100);
+  });
+
+  it('applies a square-law curve', () => {
+    const curve = new BrightnessCurve({ curve: 'square' });
+
+    expect(curve.toLevel(50)).toBe(25);
+    expect(curve.toBrightness(25)).toBe(50);
+  });
+
+  it('interpolates between custom points', () => {
+    const curve = new BrightnessCurve({ curve: 'custom', curvePoints: [{ brightness: 50, level: 20 }] });
+
+    expect(curve.toLevel(25)).toBe(10);
+    expect(curve.toLevel(75)).toBe(60);
+    expect(curve.toBrightness(60)).toBe(75);
+  });
+
+  it('round-trips every slider position', () => {
+    for (const config of [{ lowTrim: 15 }, { lowTrim: 10, highTrim: 80, curve: 'square' as const }]) {
+      const curve = new BrightnessCurve(config);
+      for (let brightness = 0; brightness <= 100; brightness++) {
+        expect(curve.toBrightness(curve.toLevel(brightness))).toBe(brightness);
+      }
+    }
+  });
+});
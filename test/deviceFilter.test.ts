@@ -0,0 +1,61 @@
+import { DeviceFilter, FilterableDevice } from '../src/deviceFilter';
+
+function device(VID: string, Name: string, AreaPath: string[], LoadType = 'LED'): FilterableDevice {
+  return { VID, Name, ObjectType: 'Load', LoadType, Area: AreaPath[AreaPath.length - 1], AreaPath };
+}
+
+const pendants = device('101', 'Pendants', ['Home', 'Kitchen']);
+const disposal = device('102', 'Disposal', ['Home', 'Kitchen'], 'High Voltage Relay');
+const sconces = device('105', 'Sconces', ['Home', 'Garage']);
+const spare = device('250', 'Spare Circuit', ['Home', 'Garage']);
+
+describe('DeviceFilter', () => {
+  it('includes everything without options', () => {
+    const filter = new DeviceFilter({});
+
+    expect([pendants, disposal, sconces, spare].map(candidate => filter.exclusionReason(candidate)))
+      .toEqual([undefined, undefined, undefined, undefined]);
+  });
+
+  it('honours the omit list and range', () => {
+    const filter = new DeviceFilter({ omit: '102', range: '100,200' });
+
+    expect(filter.exclusionReason(pendants)).toBeUndefined();
+    expect(filter.exclusionReason(disposal)).toBe('in omit list');
+    expect(filter.exclusionReason(spare)).toBe('outside range 100-200');
+  });
+
+  it('matches areas including their child areas', () => {
+    const filter = new DeviceFilter({ filters: [{ action: 'exclude', area: 'home' }] });
+
+    expect(filter.exclusionReason(pendants)).toBe('excluded by filter rule 1 (area "home")');
+  });
+
+  it('requires every criterion of a rule to match', () => {
+    const filter = new DeviceFilter({ filters: [{ action: 'exclude', area: 'Kitchen', loadType: '*Relay' }] });
+
+    expect(filter.exclusionReason(pendants)).toBeUndefined();
+    expect(filter.exclusionReason(disposal)).toBe('excluded by filter rule 1 (area "Kitchen", loadType "*Relay")');
+  });
+
+  it('lets the first matching rule decide', () => {
+    const filter = new DeviceFilter({
+      filters: [
+        { action: 'exclude', name: 'Spare*' },
+        { action: 'include', area: 'Garage' },
+        { action: 'include', objectType: 'Load', name: 'Pendants' },
+      ],
+    });
+
+    expect(filter.exclusionReason(spare)).toBe('excluded by filter rule 1 (name "Spare*")');
+    expect(filter.exclusionReason(sconces)).toBeUndefined();
+    expect(filter.exclusionReason(pendants)).toBeUndefined();
+    expect(filter.exclusionReason(disposal)).toBe('not matched by any include rule');
+  });
+
+  it('applies omit before the rules', () => {
+    const filter = new DeviceFilter({ omit: '105', filters: [{ action: 'include', area: 'Garage' }] });
+
+    expect(filter.exclusionReason(sconces)).toBe('in omit list');
+  });
+});
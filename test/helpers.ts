@@ -0,0 +1,97 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventEmitter } from 'events';
+import { Logger } from 'homebridge';
+import { PlatformAccessory } from 'homebridge/lib/platformAccessory';
+import * as hap from 'hap-nodejs';
+import { ConnectionState, VantageInfusion } from '../src/vantageInfusion';
+import { VantagePlatform } from '../src/platform';
+import { MockInfusionController } from './mockController';
+
+export function createLogger(): Logger {
+  return {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    log: jest.fn(),
+    success: jest.fn(),
+  } as unknown as Logger;
+}
+
+export type InfusionConfig = ConstructorParameters<typeof VantageInfusion>[0];
+
+export function createInfusion(controller: MockInfusionController, overrides: Partial<InfusionConfig> = {}): VantageInfusion {
+  return new VantageInfusion({
+    ipAddress: controller.host,
+    username: '',
+    password: '',
+    log: createLogger(),
+    debug: false,
+    commandPort: controller.commandPort,
+    configPort: controller.configPort,
+    commandTimeout: 500,
+    reconnectDelay: 20,
+    maxReconnectDelay: 100,
+    writeCoalesceTime: 20,
+    storagePath: mkdtempSync(join(tmpdir(), 'vantage-test-')),
+    ...overrides,
+  });
+}
+
+/** Minimal stand-in for the platform exposing what the accessory classes rely on. */
+export function createPlatform(infusion: VantageInfusion, log: Logger = createLogger()): VantagePlatform {
+  return {
+    Service: hap.Service,
+    Characteristic: hap.Characteristic,
+    api: { hap },
+    infusion,
+    log,
+  } as unknown as VantagePlatform;
+}
+
+/** Resolves with the arguments of the next emitted event accepted by the optional predicate. */
+export function waitForEvent<T extends any[] = any[]>(
+  emitter: NodeJS.EventEmitter,
+  event: string,
+  predicate: (...args: T) => boolean = () => true,
+): Promise<T> {
+  return new Promise((resolve) => {
+    const listener = (...args: any[]) => {
+      if (predicate(...args as T)) {
+        emitter.off(event, listener);
+        resolve(args as T);
+      }
+    };
+    emitter.on(event, listener);
+  });
+}
+
+export async function waitForState(infusion: VantageInfusion, state: ConnectionState): Promise<void> {
+  if (infusion.connectionState !== state) {
+    await waitForEvent(infusion, 'connectionStateChange', next => next === state);
+  }
+}
+
+export interface FakeApi extends EventEmitter {
+  hap: typeof hap;
+  platformAccessory: typeof PlatformAccessory;
+  user: { storagePath: () => string };
+  registerPlatformAccessories: jest.Mock;
+  unregisterPlatformAccessories: jest.Mock;
+  updatePlatformAccessories: jest.Mock;
+}
+
+/** Just enough of the Homebridge API to construct and drive a VantagePlatform. */
+export function createApi(): FakeApi {
+  const storagePath = mkdtempSync(join(tmpdir(), 'vantage-storage-'));
+  return Object.assign(new EventEmitter(), {
+    hap,
+    platformAccessory: PlatformAccessory,
+    user: { storagePath: () => storagePath },
+    registerPlatformAccessories: jest.fn(),
+    unregisterPlatformAccessories: jest.fn(),
+    updatePlatformAccessories: jest.fn(),
+  });
+}
@@ -0,0 +1,78 @@
+import { LineFramer, parseMessage } from '../src/hostProtocol';
+
+describe('LineFramer', () => {
+  it('holds partial lines until the terminator arrives', () => {
+    const framer = new LineFramer();
+
+    expect(framer.push('S:LOAD 12 10')).toEqual([]);
+    expect(framer.push('0.000\r\nS:LOAD 13 0.000\r\nS:BL')).toEqual(['S:LOAD 12 100.000', 'S:LOAD 13 0.000']);
+    expect(framer.push(Buffer.from('IND 20 50.000\n'))).toEqual(['S:BLIND 20 50.000']);
+  });
+
+  it('drops blank lines and discards buffered data on reset', () => {
+    const framer = new LineFramer();
+
+    expect(framer.push('\r\n\nR:GETLOAD 1 0.000\n\r\n')).toEqual(['R:GETLOAD 1 0.000']);
+    framer.push('S:LOAD 1');
+    framer.reset();
+    expect(framer.push(' 5.000\n')).toEqual([' 5.000']);
+  });
+});
+
+describe('parseMessage', () => {
+  it('parses load and blind status', () => {
+    expect(parseMessage('S:LOAD 101 45.500')).toMatchObject({ type: 'S:LOAD', vid: '101', level: 45.5 });
+    expect(parseMessage('R:GETLOAD 101 0.000')).toMatchObject({ type: 'R:GETLOAD', vid: '101', level: 0 });
+    expect(parseMessage('S:BLIND 201 30.000')).toMatchObject({ type: 'S:BLIND', vid: '201', position: 30 });
+  });
+
+  it('parses invoke responses', () => {
+    expect(parseMessage('R:INVOKE 301 21.500 Thermostat.GetIndoorTemperature')).toMatchObject({
+      type: 'R:INVOKE',
+      vid: '301',
+      result: '21.500',
+      method: 'Thermostat.GetIndoorTemperature',
+      params: [],
+    });
+    expect(parseMessage('R:INVOKE 101 0 Load.Ramp 6 1 40')).toMatchObject({ method: 'Load.Ramp', params: ['6', '1', '40'] });
+  });
+
+  it('parses extended object status', () => {
+    expect(parseMessage('S:STATUS 106 RGBLoad.GetHSL 240 80 50')).toMatchObject({
+      type: 'S:STATUS',
+      vid: '106',
+      method: 'RGBLoad.GetHSL',
+      params: ['240', '80', '50'],
+    });
+  });
+
+  it('parses thermostat modes and setpoints', () => {
+    expect(parseMessage('S:THERMOP 301 COOL')).toMatchObject({ type: 'S:THERMOP', vid: '301', mode: 'COOL' });
+    expect(parseMessage('R:THERMTEMP 301 HEAT 20.000')).toMatchObject({
+      type: 'R:THERMTEMP',
+      vid: '301',
+      setpoint: 'HEAT',
+      temperature: 20,
+    });
+    expect(parseMessage('S:THERMFAN 301 on')).toMatchObject({ type: 'S:THERMFAN', vid: '301', fan: 'ON' });
+    expect(parseMessage('S:THERMTEMP 301 COOL 24.5')).toMatchObject({ type: 'S:THERMTEMP', setpoint: 'COOL', temperature: 24.5 });
+    expect(parseMessage('S:TEMP 401 -3.5')).toMatchObject({ type: 'S:TEMP', vid: '401', temperature: -3.5 });
+  });
+
+  it('parses variable values, unquoting text', () => {
+    expect(parseMessage('S:VARIABLE 601 1')).toMatchObject({ type: 'S:VARIABLE', vid: '601', value: '1' });
+    expect(parseMessage('R:GETVARIABLE 603 "Welcome home"')).toMatchObject({ type: 'R:GETVARIABLE', value: 'Welcome home' });
+    expect(parseMessage('S:VARIABLE 601')).toMatchObject({ type: 'unknown' });
+  });
+
+  it('parses error responses with their code', () => {
+    expect(parseMessage('R:ERROR:4 GETLOAD 9999')).toMatchObject({ type: 'R:ERROR', code: 4, message: 'GETLOAD 9999' });
+    expect(parseMessage('R:ERROR Invalid command')).toMatchObject({ type: 'R:ERROR', code: 0 });
+  });
+
+  it('reports unrecognised and malformed lines as unknown', () => {
+    expect(parseMessage('EL: 101 Load.GetLevel 50')).toMatchObject({ type: 'unknown', command: 'EL:', args: ['101', 'Load.GetLevel', '50'] });
+    expect(parseMessage('S:LOAD 101 bogus')).toMatchObject({ type: 'unknown', raw: 'S:LOAD 101 bogus' });
+    expect(parseMessage('R:THERMTEMP 301')).toMatchObject({ type: 'unknown' });
+  });
+});
@@ -0,0 +1,353 @@
+import { AddressInfo, Server, Socket, createServer } from 'net';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+export interface MockThermostat {
+  mode: string;
+  indoor: number;
+  heat: number;
+  cool: number;
+  // 0 idle, 1 heating, 2 cooling
+  running?: number;
+  fan?: string;
+  hold?: boolean;
+  humidity?: number;
+}
+
+export interface MockControllerOptions {
+  host?: string;
+  configPort?: number;
+  commandPort?: number;
+  project?: string;
+  username?: string;
+  password?: string;
+}
+
+export const FIXTURE_PROJECT = join(__dirname, 'fixtures', 'Project.dc');
+
+/**
+ * Stand-in for an InFusion controller. Serves the project file over the port 2001
+ * XML interface and speaks enough of the port 3001 host command protocol to drive
+ * VantageInfusion and the accessories end to end.
+ */
+export class MockInfusionController {
+  public readonly loads = new Map<string, number>();
+  // Level a load turns on at with Load.On, 100 unless set
+  public readonly presets = new Map<string, number>();
+  public readonly blinds = new Map<string, number>();
+  public readonly thermostats = new Map<string, MockThermostat>();
+  public readonly tasks = new Map<string, boolean>();
+  public readonly variables = new Map<string, number>();
+  public readonly colors = new Map<string, number[]>();
+  public readonly colorTemperatures = new Map<string, number>();
+  public readonly temperatures = new Map<string, number>();
+  public readonly contacts = new Map<string, boolean>();
+  public readonly received: string[] = [];
+  // Command prefixes answered with R:ERROR, or not answered at all
+  public readonly failing = new Set<string>();
+  public readonly silent = new Set<string>();
+  // Status line prefixes that are never pushed, as if the update was lost
+  public readonly muted = new Set<string>();
+  public connections = 0;
+
+  private readonly configServer: Server;
+  private readonly commandServer: Server;
+  private readonly clients = new Set<Socket>();
+  private readonly project: string;
+  private waiters: { match: (line: string) => boolean; resolve: (line: string) => void }[] = [];
+
+  constructor(private readonly options: MockControllerOptions = {}) {
+    this.project = options.project ?? readFileSync(FIXTURE_PROJECT, 'utf8');
+    this.configServer = createServer((socket) => this.handleConfigConnection(socket));
+    this.commandServer = createServer((socket) => this.handleCommandConnection(socket));
+  }
+
+  get host(): string {
+    return this.options.host ?? '127.0.0.1';
+  }
+
+  get configPort(): number {
+    return (this.configServer.address() as AddressInfo).port;
+  }
+
+  get commandPort(): number {
+    return (this.commandServer.address() as AddressInfo).port;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.configServer.listen(this.options.configPort ?? 0, this.host, resolve));
+    await new Promise<void>((resolve) => this.commandServer.listen(this.options.commandPort ?? 0, this.host, resolve));
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.clients) {
+      client.destroy();
+    }
+    this.clients.clear();
+    await new Promise<void>((resolve) => this.configServer.close(() => resolve()));
+    await new Promise<void>((resolve) => this.commandServer.close(() => resolve()));
+  }
+
+  /** Resolves once at least one client is connected on the command port. */
+  async waitForClient(): Promise<void> {
+    while (this.clients.size === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  /** Resolves with the first received command line (past or future) matching the prefix. */
+  waitForCommand(prefix: string): Promise<string> {
+    const existing = this.received.find(line => line.startsWith(prefix));
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+    return new Promise((resolve) => {
+      this.waiters.push({ match: (line) => line.startsWith(prefix), resolve });
+    });
+  }
+
+  /** Pushes a raw event line to every connected command client. */
+  push(line: string): void {
+    if ([...this.muted].some(prefix => line.startsWith(prefix))) {
+      return;
+    }
+    this.pushRaw(`${line}\r\n`);
+  }
+
+  /** Writes data to every connected command client without adding a line terminator. */
+  pushRaw(data: string): void {
+    for (const client of this.clients) {
+      client.write(data);
+    }
+  }
+
+  private handleConfigConnection(socket: Socket): void {
+    let buffer = '';
+    socket.on('data', (data) => {
+      buffer += data.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\n')) >= 0) {
+        const request = buffer.substring(0, index).trim();
+        buffer = buffer.substring(index + 1);
+
+        if (request.startsWith('<ILogin>')) {
+          const ok = request.includes(`<User>${this.options.username}</User>`) &&
+            request.includes(`<Password>${this.options.password}</Password>`);
+          socket.write(`<ILogin><Login><return>${ok}</return></Login></ILogin>\n`);
+        } else if (request.startsWith('<IBackup>')) {
+          const encoded = Buffer.from(this.project, 'utf8').toString('base64');
+          socket.write(`<IBackup><GetFile><return><?File Encode="Base64" /${encoded}?></return></GetFile></IBackup>\n`);
+        }
+      }
+    });
+    socket.on('error', () => undefined);
+  }
+
+  /** Drops every command connection, as a controller reboot would. */
+  disconnectClients(): void {
+    for (const client of this.clients) {
+      client.destroy();
+    }
+    this.clients.clear();
+  }
+
+  private handleCommandConnection(socket: Socket): void {
+    this.connections++;
+    this.clients.add(socket);
+    let buffer = '';
+    socket.on('data', (data) => {
+      buffer += data.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.substring(0, index).replace(/\r$/, '');
+        buffer = buffer.substring(index + 1);
+        if (line) {
+          this.handleCommand(socket, line);
+        }
+      }
+    });
+    socket.on('close', () => this.clients.delete(socket));
+    socket.on('error', () => undefined);
+  }
+
+  private handleCommand(socket: Socket, line: string): void {
+    this.received.push(line);
+    this.waiters = this.waiters.filter(waiter => {
+      if (waiter.match(line)) {
+        waiter.resolve(line);
+        return false;
+      }
+      return true;
+    });
+
+    const reply = (response: string) => socket.write(`${response}\r\n`);
+    const [command, ...args] = line.split(' ');
+
+    if ([...this.silent].some(prefix => line.startsWith(prefix))) {
+      return;
+    }
+    if ([...this.failing].some(prefix => line.startsWith(prefix))) {
+      reply(`R:ERROR:4 ${line}`);
+      return;
+    }
+
+    switch (command) {
+      case 'LOGIN':
+        if (args[0] === this.options.username && args[1] === this.options.password) {
+          reply('R:LOGIN SUCCESSFUL');
+        } else {
+          reply(`R:ERROR:21 ${line}`);
+        }
+        break;
+      case 'STATUS':
+      case 'ELENABLE':
+      case 'ELLOG':
+        reply(`R:${line}`);
+        break;
+      case 'LOAD':
+        this.loads.set(args[0], parseFloat(args[1]));
+        reply(`R:LOAD ${args[0]} ${args[1]}`);
+        this.push(`S:LOAD ${args[0]} ${parseFloat(args[1]).toFixed(3)}`);
+        break;
+      case 'GETLOAD':
+        reply(`R:GETLOAD ${args[0]} ${(this.loads.get(args[0]) ?? 0).toFixed(3)}`);
+        break;
+      case 'INVOKE':
+        this.handleInvoke(reply, args);
+        break;
+      case 'BLIND':
+        this.blinds.set(args[0], parseFloat(args[2]));
+        reply(`R:BLIND ${args.join(' ')}`);
+        this.push(`S:BLIND ${args[0]} ${parseFloat(args[2]).toFixed(3)}`);
+        break;
+      case 'GETBLIND':
+        reply(`R:GETBLIND ${args[0]} ${(this.blinds.get(args[0]) ?? 0).toFixed(3)}`);
+        break;
+      case 'THERMOP':
+        this.thermostat(args[0]).mode = args[1];
+        reply(`R:THERMOP ${args[0]} ${args[1]}`);
+        this.push(`S:THERMOP ${args[0]} ${args[1]}`);
+        break;
+      case 'GETTHERMOP':
+        reply(`R:GETTHERMOP ${args[0]} ${this.thermostat(args[0]).mode}`);
+        break;
+      case 'THERMTEMP': {
+        const thermostat = this.thermostat(args[0]);
+        if (args[1] === 'HEAT') {
+          thermostat.heat = parseFloat(args[2]);
+        } else {
+          thermostat.cool = parseFloat(args[2]);
+        }
+        reply(`R:THERMTEMP ${args[0]} ${args[1]} ${args[2]}`);
+        this.push(`S:THERMTEMP ${args[0]} ${args[1]} ${args[2]}`);
+        break;
+      }
+      case 'THERMFAN':
+        this.thermostat(args[0]).fan = args[1];
+        reply(`R:THERMFAN ${args[0]} ${args[1]}`);
+        this.push(`S:THERMFAN ${args[0]} ${args[1]}`);
+        break;
+      case 'GETTHERMFAN':
+        reply(`R:GETTHERMFAN ${args[0]} ${this.thermostat(args[0]).fan ?? 'AUTO'}`);
+        break;
+      case 'GETTHERMTEMP': {
+        const thermostat = this.thermostat(args[0]);
+        const value = args[1] === 'HEAT' ? thermostat.heat : thermostat.cool;
+        reply(`R:THERMTEMP ${args[0]} ${args[1]} ${value.toFixed(3)}`);
+        break;
+      }
+      case 'VARIABLE':
+        this.variables.set(args[0], parseFloat(args[1]));
+        reply(`R:VARIABLE ${args[0]} ${args[1]}`);
+        this.push(`S:VARIABLE ${args[0]} ${args[1]}`);
+        break;
+      case 'GETVARIABLE':
+        reply(`R:GETVARIABLE ${args[0]} ${this.variables.get(args[0]) ?? 0}`);
+        break;
+      default:
+        reply(`R:ERROR:4 ${line}`);
+    }
+  }
+
+  private handleInvoke(reply: (response: string) => void, args: string[]): void {
+    const [vid, method, ...params] = args;
+
+    switch (method) {
+      case 'Load.Ramp': {
+        const level = parseFloat(params[2]);
+        this.loads.set(vid, level);
+        reply(`R:INVOKE ${vid} 0 ${method} ${params.join(' ')}`);
+        this.push(`S:LOAD ${vid} ${level.toFixed(3)}`);
+        break;
+      }
+      case 'Load.On': {
+        const level = this.presets.get(vid) ?? 100;
+        this.loads.set(vid, level);
+        reply(`R:INVOKE ${vid} 0 ${method}`);
+        this.push(`S:LOAD ${vid} ${level.toFixed(3)}`);
+        break;
+      }
+      case 'Task.Start':
+      case 'Task.Stop': {
+        const running = method === 'Task.Start';
+        this.tasks.set(vid, running);
+        reply(`R:INVOKE ${vid} 1 ${method}`);
+        this.push(`S:TASK ${vid} ${running ? 1 : 0}`);
+        break;
+      }
+      case 'RGBLoad.SetHSL':
+        this.colors.set(vid, params.map(value => parseFloat(value)));
+        reply(`R:INVOKE ${vid} 0 ${method} ${params.join(' ')}`);
+        this.push(`S:STATUS ${vid} RGBLoad.GetHSL ${params.join(' ')}`);
+        break;
+      case 'RGBLoad.GetHSL':
+        reply(`R:INVOKE ${vid} 0 ${method} ${(this.colors.get(vid) ?? [0, 0, 50]).join(' ')}`);
+        break;
+      case 'Load.SetColorTemperature':
+        this.colorTemperatures.set(vid, parseFloat(params[0]));
+        reply(`R:INVOKE ${vid} 0 ${method} ${params[0]}`);
+        this.push(`S:STATUS ${vid} Load.GetColorTemperature ${params[0]}`);
+        break;
+      case 'Load.GetColorTemperature':
+        reply(`R:INVOKE ${vid} ${this.colorTemperatures.get(vid) ?? 2700} ${method}`);
+        break;
+      case 'Task.IsRunning':
+        reply(`R:INVOKE ${vid} ${this.tasks.get(vid) ? 1 : 0} ${method}`);
+        break;
+      case 'DryContact.GetState':
+        reply(`R:INVOKE ${vid} ${this.contacts.get(vid) ? 1 : 0} ${method}`);
+        break;
+      case 'Temperature.GetValue':
+        reply(`R:INVOKE ${vid} ${(this.temperatures.get(vid) ?? 0).toFixed(3)} ${method}`);
+        break;
+      case 'Thermostat.SetHoldMode':
+        this.thermostat(vid).hold = params[0] === '1';
+        reply(`R:INVOKE ${vid} 0 ${method} ${params[0]}`);
+        this.push(`S:STATUS ${vid} Thermostat.GetHoldMode ${params[0]}`);
+        break;
+      case 'Thermostat.GetHoldMode':
+        reply(`R:INVOKE ${vid} ${this.thermostat(vid).hold ? 1 : 0} ${method}`);
+        break;
+      case 'Thermostat.GetIndoorHumidity':
+        reply(`R:INVOKE ${vid} ${(this.thermostat(vid).humidity ?? 0).toFixed(3)} ${method}`);
+        break;
+      case 'Thermostat.GetHVACState':
+        reply(`R:INVOKE ${vid} ${this.thermostat(vid).running ?? 0} ${method}`);
+        break;
+      case 'Thermostat.GetIndoorTemperature':
+        reply(`R:INVOKE ${vid} ${this.thermostat(vid).indoor.toFixed(3)} ${method}`);
+        break;
+      default:
+        reply(`R:ERROR:4 INVOKE ${args.join(' ')}`);
+    }
+  }
+
+  private thermostat(vid: string): MockThermostat {
+    let thermostat = this.thermostats.get(vid);
+    if (!thermostat) {
+      thermostat = { mode: 'OFF', indoor: 21, heat: 20, cool: 24 };
+      this.thermostats.set(vid, thermostat);
+    }
+    return thermostat;
+  }
+}
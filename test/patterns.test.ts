@@ -0,0 +1,24 @@
+import { matchesGlob, matchesSelector } from '../src/patterns';
+
+describe('matchesGlob', () => {
+  it('matches wildcards case-insensitively against the whole name', () => {
+    expect(matchesGlob('Movie Night', 'movie*')).toBe(true);
+    expect(matchesGlob('Movie Night', 'Night')).toBe(false);
+    expect(matchesGlob('Fan 2', 'Fan ?')).toBe(true);
+  });
+
+  it('treats regular expression characters literally', () => {
+    expect(matchesGlob('Lights (All)', 'Lights (All)')).toBe(true);
+    expect(matchesGlob('Lights.All', 'Lights?All')).toBe(true);
+    expect(matchesGlob('LightsXAll', 'Lights.All')).toBe(false);
+  });
+});
+
+describe('matchesSelector', () => {
+  it('matches numeric selectors against the VID and others against the name', () => {
+    expect(matchesSelector('501', 'Movie', ['501'])).toBe(true);
+    expect(matchesSelector('5010', 'Movie', ['501'])).toBe(false);
+    expect(matchesSelector('502', 'Goodnight', ['501', 'Good*'])).toBe(true);
+    expect(matchesSelector('503', 'Helper', [])).toBe(false);
+  });
+});
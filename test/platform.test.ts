@@ -0,0 +1,199 @@
+import { API, PlatformAccessory } from 'homebridge';
+import { VantagePlatform } from '../src/platform';
+import { MockInfusionController } from './mockController';
+import { createApi, createLogger, FakeApi } from './helpers';
+
+function device(VID: string, Name: string, LoadType = 'Incandescent') {
+  return { VID, Name, ObjectType: 'Load', LoadType, DeviceCategory: '', Area: 'Kitchen' };
+}
+
+describe('VantagePlatform', () => {
+  let api: FakeApi;
+  let controller: MockInfusionController;
+  let platform: VantagePlatform;
+
+  function createPlatform(config: Record<string, unknown> = {}): VantagePlatform {
+    return new VantagePlatform(createLogger(), {
+      platform: 'VantageControlsModern',
+      ipaddress: controller.host,
+      commandPort: controller.commandPort,
+      configPort: controller.configPort,
+      ...config,
+    }, api as unknown as API);
+  }
+
+  function cachedAccessory(vid: string, name: string): PlatformAccessory {
+    const accessory = new api.platformAccessory(name, api.hap.uuid.generate(vid));
+    accessory.context.device = device(vid, name);
+    platform.configureAccessory(accessory);
+    return accessory;
+  }
+
+  beforeEach(async () => {
+    api = createApi();
+    controller = new MockInfusionController();
+    await controller.start();
+  });
+
+  afterEach(async () => {
+    api.emit('shutdown');
+    await controller.stop();
+  });
+
+  describe('accessory reconciliation', () => {
+    it('adds new devices, updates cached ones and removes orphans', () => {
+      platform = createPlatform();
+      const kept = cachedAccessory('101', 'Kitchen Pendants');
+      const orphan = cachedAccessory('199', 'Kitchen Removed');
+
+      platform['syncAccessories']([device('101', 'Pendants'), device('102', 'Island')]);
+
+      expect(api.registerPlatformAccessories).toHaveBeenCalledTimes(1);
+      expect(api.registerPlatformAccessories.mock.calls[0][2].map(accessory => accessory.displayName)).toEqual(['Island']);
+      expect(api.updatePlatformAccessories).toHaveBeenCalledWith([kept]);
+      expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith('homebridge-vantage-modern', 'VantageControlsModern', [orphan]);
+      expect(platform.accessories.map(accessory => accessory.displayName)).toEqual(['Kitchen Pendants', 'Island']);
+    });
+
+    it('removes cached accessories that are now omitted', () => {
+      platform = createPlatform({ omit: '102' });
+      const omitted = cachedAccessory('102', 'Kitchen Island');
+
+      platform['syncAccessories']([device('101', 'Pendants'), device('102', 'Island')]);
+
+      expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith('homebridge-vantage-modern', 'VantageControlsModern', [omitted]);
+      expect(platform.accessories).toHaveLength(1);
+    });
+
+    it('configures Adaptive Lighting for tunable-white loads, also when set up again', () => {
+      platform = createPlatform();
+      const tunable = device('107', 'Task Lights', 'DALI DT8 Tunable White');
+
+      platform['syncAccessories']([tunable]);
+      platform['syncAccessories']([tunable]);
+
+      const lightbulb = platform.accessories[0].getService(api.hap.Service.Lightbulb);
+      expect(lightbulb.testCharacteristic(api.hap.Characteristic.ColorTemperature)).toBe(true);
+      expect(lightbulb.testCharacteristic(api.hap.Characteristic.SupportedCharacteristicValueTransitionConfiguration)).toBe(true);
+    });
+
+    it('replaces a configured relay and contact pair with one garage door', () => {
+      platform = createPlatform({ garageDoors: [{ name: 'Garage Door', relay: '108', contact: '801' }] });
+      const contact = { VID: '801', Name: 'Door Contact', ObjectType: 'DryContact', LoadType: '', DeviceCategory: '', Area: 'Garage' };
+
+      platform['syncAccessories']([device('101', 'Pendants'), device('108', 'Door Opener', 'Low Voltage Relay'), contact]);
+
+      expect(platform.accessories.map(accessory => accessory.displayName)).toEqual(['Pendants', 'Garage Door']);
+      expect(platform.accessories[1].getService(api.hap.Service.GarageDoorOpener)).toBeDefined();
+    });
+
+    it('leaves out devices excluded by filter rules and logs the rule', () => {
+      const log = createLogger();
+      platform = new VantagePlatform(log, {
+        platform: 'VantageControlsModern',
+        ipaddress: '127.0.0.1',
+        filters: [{ action: 'exclude', loadType: '*Relay' }],
+      }, api as unknown as API);
+
+      platform['syncAccessories']([device('101', 'Pendants'), device('102', 'Disposal', 'High Voltage Relay')]);
+
+      expect(platform.accessories.map(accessory => accessory.displayName)).toEqual(['Pendants']);
+      expect(log.debug).toHaveBeenCalledWith('Skipping device Disposal (VID: 102): excluded by filter rule 1 (loadType "*Relay")');
+    });
+
+    it('applies device overrides for name, service and visibility', () => {
+      platform = createPlatform({
+        devices: [
+          { vid: '101', name: 'Breakfast Bar', service: 'fan' },
+          { vid: '102', hidden: true },
+        ],
+      });
+      const hidden = cachedAccessory('102', 'Kitchen Island');
+
+      platform['syncAccessories']([device('101', 'Pendants'), device('102', 'Island')]);
+
+      const [accessory] = platform.accessories;
+      expect(platform.accessories).toHaveLength(1);
+      expect(accessory.displayName).toBe('Breakfast Bar');
+      expect(accessory.getService(api.hap.Service.Fan)).toBeDefined();
+      expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith('homebridge-vantage-modern', 'VantageControlsModern', [hidden]);
+    });
+
+    it('adds a master switch per area that follows its loads', () => {
+      platform = createPlatform({ areaSwitches: true });
+      platform.infusion['projectAreas'] = [
+        { VID: '1', Name: 'Home', Parent: '0' },
+        { VID: '2', Name: 'Kitchen', Parent: '1' },
+        { VID: '4', Name: 'Garage', Parent: '1' },
+      ];
+      const load = (vid: string, name: string) => ({ ...device(vid, name), AreaVID: '2' });
+      const shade = { VID: '201', Name: 'Shade', ObjectType: 'QubeBlind', LoadType: '', DeviceCategory: '', Area: 'Kitchen', AreaVID: '2' };
+
+      platform['syncAccessories']([load('101', 'Pendants'), load('107', 'Task Lights'), shade]);
+
+      const areas = platform.accessories.filter(accessory => accessory.context.device.ObjectType === 'Area');
+      expect(areas.map(accessory => [accessory.displayName, accessory.context.device.Loads]))
+        .toEqual([['Home', ['101', '107']], ['Kitchen', ['101', '107']]]);
+
+      const kitchen = areas[1].getService(api.hap.Service.Switch).getCharacteristic(api.hap.Characteristic.On);
+      platform.infusion.emit('loadStatusChange', '107', 60);
+      expect(kitchen.value).toBe(true);
+    });
+
+    it('builds area switches from the lights that pass the filters', () => {
+      platform = createPlatform({ areaSwitches: true, range: '100,199', filters: [{ action: 'include', objectType: 'Load' }] });
+      platform.infusion['projectAreas'] = [{ VID: '2', Name: 'Kitchen', Parent: '0' }];
+      const load = (vid: string, name: string, loadType?: string) => ({ ...device(vid, name, loadType), AreaVID: '2' });
+
+      platform['syncAccessories']([
+        load('101', 'Pendants'),
+        load('102', 'Disposal', 'High Voltage Relay'),
+        load('103', 'Ceiling Fan', 'Motor'),
+        load('201', 'Cove'),
+      ]);
+
+      const area = platform.accessories.find(accessory => accessory.context.device.ObjectType === 'Area');
+      expect(area.context.device.Loads).toEqual(['101']);
+    });
+
+    it('prefers per-device fade and on-level settings over the global ones', () => {
+      platform = createPlatform({
+        rampUpTime: 2,
+        onLevel: 'fixed',
+        fixedLevel: 50,
+        devices: [{ vid: '102', rampUpTime: 5, onLevel: 'last' }],
+      });
+
+      expect(platform['getLoadOptions'](device('101', 'Pendants'))).toMatchObject({ rampUpTime: 2, onLevel: 'fixed', fixedLevel: 50 });
+      expect(platform['getLoadOptions'](device('102', 'Island'))).toMatchObject({ rampUpTime: 5, onLevel: 'last' });
+    });
+
+    it('flags sensors as faulty while the controller is unreachable', () => {
+      platform = createPlatform();
+      const contact = { VID: '801', Name: 'Door Contact', ObjectType: 'DryContact', LoadType: '', DeviceCategory: '', Area: 'Garage' };
+      platform['syncAccessories']([contact]);
+      const fault = platform.accessories[0].getService(api.hap.Service.ContactSensor)
+        .getCharacteristic(api.hap.Characteristic.StatusFault);
+      expect(fault.value).toBe(api.hap.Characteristic.StatusFault.GENERAL_FAULT);
+
+      platform.infusion.emit('connectionStateChange', 'subscribed', 'authenticating');
+      expect(fault.value).toBe(api.hap.Characteristic.StatusFault.NO_FAULT);
+
+      platform.infusion.emit('connectionStateChange', 'backoff', 'subscribed');
+      expect(fault.value).toBe(api.hap.Characteristic.StatusFault.GENERAL_FAULT);
+
+      platform.infusion.emit('connectionStateChange', 'subscribed', 'authenticating');
+      expect(fault.value).toBe(api.hap.Characteristic.StatusFault.NO_FAULT);
+    });
+
+    it('keeps the cache when discovery found nothing', () => {
+      platform = createPlatform();
+      cachedAccessory('101', 'Kitchen Pendants');
+
+      platform['syncAccessories']([]);
+
+      expect(api.unregisterPlatformAccessories).not.toHaveBeenCalled();
+      expect(platform.accessories).toHaveLength(1);
+    });
+  });
+});
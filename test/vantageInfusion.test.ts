@@ -0,0 +1,679 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { AddressInfo, createServer } from 'net';
+import { join } from 'path';
+import { VantageInfusion } from '../src/vantageInfusion';
+import { FIXTURE_PROJECT, MockInfusionController } from './mockController';
+import { createInfusion, createLogger, waitForEvent, waitForState } from './helpers';
+
+describe('VantageInfusion', () => {
+  let controller: MockInfusionController;
+  let infusion: VantageInfusion;
+  beforeEach(async () => {
+    controller = new MockInfusionController();
+    await controller.start();
+    infusion = createInfusion(controller);
+    await controller.waitForClient();
+  });
+
+  afterEach(async () => {
+    infusion.close();
+    await controller.stop();
+  });
+
+  describe('discover()', () => {
+    it('downloads the project file and emits the discovered devices', async () => {
+      const complete = waitForEvent(infusion, 'discoveryComplete');
+      await infusion.discover();
+      const [devices] = await complete;
+
+      expect(devices.map(device => device.VID)).toEqual(['101', '102', '103', '104', '105', '106', '107', '108', '201', '301', '401', '701', '801', '802']);
+      expect(devices[0]).toMatchObject({
+        Name: 'Pendants',
+        ObjectType: 'Load',
+        LoadType: 'Incandescent',
+        Area: 'Kitchen',
+      });
+      expect(devices.find(device => device.VID === '201')).toMatchObject({ ObjectType: 'QubeBlind', Area: 'Living Room' });
+    });
+
+    it('logs in before requesting the backup when credentials are configured', async () => {
+      await controller.stop();
+      controller = new MockInfusionController({ username: 'admin', password: 'secret' });
+      await controller.start();
+      infusion.close();
+      infusion = createInfusion(controller, { username: 'admin', password: 'secret' });
+
+      const complete = waitForEvent(infusion, 'discoveryComplete');
+      await infusion.discover();
+      const [devices] = await complete;
+
+      expect(devices).toHaveLength(14);
+      expect(await controller.waitForCommand('LOGIN')).toBe('LOGIN admin secret');
+    });
+
+    it('completes with no devices when the controller is unreachable', async () => {
+      await controller.stop();
+      const complete = waitForEvent(infusion, 'discoveryComplete');
+      await infusion.discover();
+      const [devices] = await complete;
+
+      expect(devices).toEqual([]);
+    });
+  });
+
+  describe('project cache', () => {
+    const project = readFileSync(FIXTURE_PROJECT, 'utf8');
+    let storagePath: string;
+
+    beforeEach(() => {
+      storagePath = mkdtempSync(join(tmpdir(), 'vantage-cache-'));
+    });
+
+    function collectDiscoveries(target: VantageInfusion): string[][] {
+      const discoveries: string[][] = [];
+      target.on('discoveryComplete', devices => discoveries.push(devices.map(device => device.VID)));
+      return discoveries;
+    }
+
+    it('saves the downloaded project to the storage path', async () => {
+      infusion.close();
+      infusion = createInfusion(controller, { storagePath, usecache: true });
+      const discoveries = collectDiscoveries(infusion);
+
+      await infusion.discover();
+
+      expect(discoveries).toHaveLength(1);
+      expect(readFileSync(join(storagePath, 'vantage_backup.xml'), 'utf8')).toBe(project);
+    });
+
+    it('brings accessories up from the cache and skips an unchanged download', async () => {
+      writeFileSync(join(storagePath, 'vantage_backup.xml'), project);
+      infusion.close();
+      infusion = createInfusion(controller, { storagePath, usecache: true });
+      const discoveries = collectDiscoveries(infusion);
+
+      await infusion.discover();
+
+      expect(discoveries).toEqual([['101', '102', '103', '104', '105', '106', '107', '108', '201', '301', '401', '701', '801', '802']]);
+    });
+
+    it('rediscovers when the controller has a changed project', async () => {
+      writeFileSync(join(storagePath, 'vantage_backup.xml'), project.replace(/<Object><Load VID="105">.*<\/Object>\n/, ''));
+      infusion.close();
+      infusion = createInfusion(controller, { storagePath, usecache: true });
+      const discoveries = collectDiscoveries(infusion);
+
+      await infusion.discover();
+
+      expect(discoveries).toEqual([
+        ['101', '102', '103', '104', '106', '107', '108', '201', '301', '401', '701', '801', '802'],
+        ['101', '102', '103', '104', '105', '106', '107', '108', '201', '301', '401', '701', '801', '802'],
+      ]);
+      expect(readFileSync(join(storagePath, 'vantage_backup.xml'), 'utf8')).toBe(project);
+    });
+
+    it('uses the cached project when the controller is unreachable', async () => {
+      writeFileSync(join(storagePath, 'vantage_backup.xml'), project);
+      infusion.close();
+      infusion = createInfusion(controller, { storagePath, usecache: true });
+      const discoveries = collectDiscoveries(infusion);
+      await controller.stop();
+
+      await infusion.discover();
+
+      expect(discoveries).toEqual([['101', '102', '103', '104', '105', '106', '107', '108', '201', '301', '401', '701', '801', '802']]);
+    });
+
+    it('ignores the cache when usecache is off', async () => {
+      writeFileSync(join(storagePath, 'vantage_backup.xml'), '<Project><Objects></Objects></Project>');
+      infusion.close();
+      infusion = createInfusion(controller, { storagePath, usecache: false });
+      const discoveries = collectDiscoveries(infusion);
+
+      await infusion.discover();
+
+      expect(discoveries).toHaveLength(1);
+      expect(discoveries[0]).toHaveLength(14);
+    });
+  });
+
+  describe('connection', () => {
+    it('logs in and subscribes before reporting the session as up', async () => {
+      await controller.stop();
+      controller = new MockInfusionController({ username: 'admin', password: 'secret' });
+      await controller.start();
+      infusion.close();
+      infusion = createInfusion(controller, { username: 'admin', password: 'secret' });
+      const states: string[] = [];
+      infusion.on('connectionStateChange', state => states.push(state));
+
+      await waitForEvent(infusion, 'connectionStateChange', state => state === 'subscribed');
+
+      expect(states).toEqual(['authenticating', 'subscribed']);
+      expect(controller.received).toEqual([
+        'LOGIN admin secret',
+        'STATUS ALL',
+        'ELENABLE 1 AUTOMATION ON',
+        'ELENABLE 1 EVENT ON',
+        'ELENABLE 1 STATUS ON',
+        'ELENABLE 1 STATUSEX ON',
+        'ELENABLE 1 SYSTEM ON',
+        'ELLOG AUTOMATION ON',
+        'ELLOG EVENT ON',
+        'ELLOG STATUS ON',
+        'ELLOG STATUSEX ON',
+        'ELLOG SYSTEM ON',
+      ]);
+      expect(infusion.connectionState).toBe('subscribed');
+    });
+
+    it('reconnects, logs in and resubscribes after the controller drops the link', async () => {
+      await waitForState(infusion, 'subscribed');
+      const states: string[] = [];
+      infusion.on('connectionStateChange', state => states.push(state));
+      controller.received.length = 0;
+
+      controller.disconnectClients();
+      await waitForEvent(infusion, 'connectionStateChange', state => state === 'subscribed');
+
+      expect(states).toEqual(['backoff', 'connecting', 'authenticating', 'subscribed']);
+      expect(controller.received).toContain('STATUS ALL');
+      expect(controller.received).toContain('ELENABLE 1 STATUS ON');
+      expect(controller.connections).toBe(2);
+
+      // A second drop must still produce exactly one new connection
+      controller.disconnectClients();
+      await waitForEvent(infusion, 'connectionStateChange', state => state === 'subscribed');
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(controller.connections).toBe(3);
+    });
+
+    it('backs off and retries when login is rejected', async () => {
+      await controller.stop();
+      controller = new MockInfusionController({ username: 'admin', password: 'secret' });
+      await controller.start();
+      infusion.close();
+      infusion = createInfusion(controller, { username: 'admin', password: 'wrong', reconnectDelay: 10, maxReconnectDelay: 20 });
+
+      await waitForEvent(infusion, 'connectionStateChange', state => state === 'backoff');
+      await waitForEvent(infusion, 'connectionStateChange', state => state === 'backoff');
+
+      expect(controller.received.filter(line => line.startsWith('LOGIN'))).toHaveLength(2);
+      expect(controller.received).not.toContain('STATUS ALL');
+    });
+  });
+
+  describe('command queue', () => {
+    it('holds commands issued before the session is up and sends them afterwards', async () => {
+      infusion.close();
+      infusion = createInfusion(controller);
+      const level = infusion.setLoadLevel('101', 40);
+
+      await expect(level).resolves.toBeUndefined();
+      const sent = controller.received.filter(line => !line.startsWith('EL'));
+      expect(sent.slice(-2)).toEqual(['STATUS ALL', 'INVOKE 101 Load.Ramp 6 1 40']);
+    });
+
+    it('replays the latest command per device after a reconnect', async () => {
+      await waitForState(infusion, 'subscribed');
+      controller.disconnectClients();
+      await waitForState(infusion, 'backoff');
+      controller.received.length = 0;
+
+      const writes = [
+        infusion.setLoadLevel('101', 10),
+        infusion.setBlindPosition('201', 50),
+        infusion.setLoadLevel('101', 20),
+        infusion.setLoadLevel('101', 30),
+      ];
+      await Promise.all(writes);
+
+      expect(controller.received.filter(line => !/^(STATUS|EL)/.test(line))).toEqual([
+        'BLIND 201 POS 50',
+        'INVOKE 101 Load.Ramp 6 1 30',
+      ]);
+      expect(controller.loads.get('101')).toBe(30);
+    });
+
+    it('fails commands waiting on a connection attempt that fails', async () => {
+      const server = createServer();
+      await new Promise<void>(resolve => server.listen(0, controller.host, resolve));
+      const closedPort = (server.address() as AddressInfo).port;
+      await new Promise(resolve => server.close(resolve));
+
+      infusion.close();
+      infusion = createInfusion(controller, { commandPort: closedPort, reconnectDelay: 1000 });
+      const level = infusion.setLoadLevel('101', 40);
+
+      await expect(level).rejects.toThrow('Connection to controller failed');
+      expect(infusion.connectionState).toBe('backoff');
+    });
+
+    it('drops commands that went stale while disconnected', async () => {
+      infusion.close();
+      infusion = createInfusion(controller, { reconnectDelay: 200, commandQueueMaxAge: 50 });
+      await waitForState(infusion, 'subscribed');
+      controller.disconnectClients();
+      await waitForState(infusion, 'backoff');
+
+      const stale = infusion.setLoadLevel('101', 10);
+
+      await expect(stale).rejects.toThrow('expired while disconnected');
+      expect(controller.received).not.toContain('INVOKE 101 Load.Ramp 6 1 10');
+    });
+  });
+
+  describe('write coalescing', () => {
+    it('sends the first and the latest of a burst of writes', async () => {
+      await waitForState(infusion, 'subscribed');
+
+      await Promise.all([10, 20, 30, 40].map(level => infusion.setLoadLevel('101', level)));
+
+      expect(controller.received.filter(line => line.startsWith('INVOKE 101'))).toEqual([
+        'INVOKE 101 Load.Ramp 6 1 10',
+        'INVOKE 101 Load.Ramp 6 1 40',
+      ]);
+      expect(controller.loads.get('101')).toBe(40);
+    });
+
+    it('ignores status for writes that have been superseded', async () => {
+      await waitForState(infusion, 'subscribed');
+      const statuses: unknown[][] = [];
+      infusion.on('blindStatusChange', (...args) => statuses.push(args));
+      const latest = waitForEvent(infusion, 'blindStatusChange', (_vid, position) => position === 60);
+
+      await Promise.all([infusion.setBlindPosition('201', 20), infusion.setBlindPosition('201', 60)]);
+      await latest;
+
+      expect(statuses).toEqual([['201', 60]]);
+    });
+
+    it('reads the level back when the status for a write is lost', async () => {
+      await waitForState(infusion, 'subscribed');
+      controller.muted.add('S:LOAD 101');
+      const status = waitForEvent(infusion, 'loadStatusChange');
+
+      await infusion.setLoadLevel('101', 40);
+
+      expect(await controller.waitForCommand('GETLOAD 101')).toBe('GETLOAD 101');
+      expect(await status).toEqual(['101', 40]);
+    });
+
+    it('rejects held writes when closed', async () => {
+      await waitForState(infusion, 'subscribed');
+      const first = infusion.setLoadLevel('101', 10);
+      const held = infusion.setLoadLevel('101', 20);
+
+      infusion.close();
+
+      await expect(held).rejects.toThrow('Connection to controller closed');
+      await first.catch(() => undefined);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(controller.received).not.toContain('INVOKE 101 Load.Ramp 6 1 20');
+    });
+  });
+
+  describe('processBackupFile()', () => {
+    const project = readFileSync(FIXTURE_PROJECT, 'utf8');
+
+    it('resolves areas and device types from the project', () => {
+      const areas = {};
+      const devices = [];
+      infusion['processBackupFile'](project, areas, devices);
+
+      expect(Object.keys(areas)).toEqual(['1', '2', '3', '4']);
+      expect(devices).toHaveLength(14);
+      expect(devices.find(device => device.VID === '102')).toMatchObject({
+        Name: 'Disposal',
+        LoadType: 'High Voltage Relay',
+        Area: 'Kitchen',
+      });
+      expect(devices.find(device => device.VID === '301')).toMatchObject({ ObjectType: 'Thermostat', HasHumidity: true });
+    });
+
+    it('groups keypad buttons under their station and skips stations without buttons', () => {
+      const devices = [];
+      infusion['processBackupFile'](project, {}, devices);
+
+      expect(devices.find(device => device.VID === '401')).toMatchObject({
+        ObjectType: 'Keypad',
+        Area: 'Kitchen',
+        Buttons: [
+          { VID: '411', Name: 'Lights On', Position: 1 },
+          { VID: '412', Name: 'All Off', Position: 2 },
+        ],
+      });
+      expect(devices.find(device => device.VID === '402')).toBeUndefined();
+    });
+
+    it('only imports the tasks selected by VID or name pattern', () => {
+      const selected = createInfusion(controller, { tasks: ['Movie', '503', 'good*'] });
+      const devices = [];
+      selected['processBackupFile'](project, {}, devices);
+      selected.close();
+
+      expect(devices.filter(device => device.ObjectType === 'Task').map(device => device.Name))
+        .toEqual(['Movie', 'Goodnight', '_Helper Fade']);
+
+      const narrow = createInfusion(controller, { tasks: ['good*'] });
+      const narrowDevices = [];
+      narrow['processBackupFile'](project, {}, narrowDevices);
+      narrow.close();
+
+      expect(narrowDevices.filter(device => device.ObjectType === 'Task')).toEqual([
+        { VID: '502', Name: 'Goodnight', ObjectType: 'Task', LoadType: '', DeviceCategory: '', Area: 'Home', AreaVID: '1', AreaPath: ['Home'] },
+      ]);
+    });
+
+    it('imports selected variables with their data type and skips text variables', () => {
+      const selected = createInfusion(controller, { variables: ['*'] });
+      const devices = [];
+      selected['processBackupFile'](project, {}, devices);
+      selected.close();
+
+      expect(devices.filter(device => device.ObjectType === 'Variable')).toEqual([
+        { VID: '601', Name: 'Vacation Mode', ObjectType: 'Variable', LoadType: '', DeviceCategory: '', Area: 'Home', AreaVID: '1', AreaPath: ['Home'], DataType: 'boolean' },
+        { VID: '602', Name: 'Guest Count', ObjectType: 'Variable', LoadType: '', DeviceCategory: '', Area: 'Home', AreaVID: '1', AreaPath: ['Home'], DataType: 'number' },
+      ]);
+    });
+
+    it('records the areas each device sits in, outermost first', () => {
+      const devices = [];
+      infusion['processBackupFile'](project, {}, devices);
+
+      expect(devices.find(device => device.VID === '101').AreaPath).toEqual(['Home', 'Kitchen']);
+      expect(devices.find(device => device.VID === '301').AreaPath).toEqual(['Home', 'Living Room']);
+    });
+
+    it('keeps the area tree of the last parsed project', () => {
+      infusion['parseProject'](project);
+
+      expect(infusion.areas).toEqual([
+        { VID: '1', Name: 'Home', Parent: '0' },
+        { VID: '2', Name: 'Kitchen', Parent: '1' },
+        { VID: '3', Name: 'Living Room', Parent: '1' },
+        { VID: '4', Name: 'Garage', Parent: '1' },
+      ]);
+    });
+  });
+
+  describe('extractDevicesDirectly()', () => {
+    it('finds devices in content the XML parser cannot handle', () => {
+      const content = '<Project><Object><Area VID="7"><Name>Den</Name></Area></Object>' +
+        '<Object><Load VID="70"><Name>Lamp</Name><Area>7</Area><LoadType>Incandescent</LoadType></Load></Object>' +
+        '<Object><Thermostat VID="71"><Name>Stat</Name><Area>7</Area></Thermostat></Object>' +
+        '<Object><Load VID="72"><Name>Broken</Name><Area>9</Area><LoadType>LED</Project>';
+      const devices = [];
+      infusion['extractDevicesDirectly'](content, {}, devices);
+
+      expect(devices).toEqual([
+        { VID: '70', Name: 'Lamp', ObjectType: 'Load', LoadType: 'Incandescent', DeviceCategory: '', Area: 'Den', AreaVID: '7', AreaPath: ['Den'] },
+        { VID: '71', Name: 'Stat', ObjectType: 'Thermostat', LoadType: '', DeviceCategory: '', Area: 'Den', AreaVID: '7', AreaPath: ['Den'] },
+      ]);
+    });
+  });
+
+  describe('command socket', () => {
+    it('resolves requests with their responses in order', async () => {
+      controller.loads.set('101', 25);
+      controller.blinds.set('201', 80);
+      // While queued, the two reads of 105 would be coalesced into one
+      await waitForState(infusion, 'subscribed');
+
+      const results = await Promise.all([
+        infusion.getLoadStatus('101'),
+        infusion.getBlindPosition('201'),
+        infusion.getLoadStatus('105'),
+        infusion.setLoadLevel('105', 60),
+        infusion.getLoadStatus('105'),
+      ]);
+
+      expect(results).toEqual([25, 80, 0, undefined, 60]);
+    });
+
+    it('rejects commands the controller answers with an error', async () => {
+      controller.failing.add('INVOKE 101');
+      const next = infusion.getLoadStatus('101');
+
+      await expect(infusion.setLoadLevel('101', 40)).rejects.toMatchObject({
+        name: 'VantageCommandError',
+        code: 4,
+        command: 'INVOKE 101 Load.Ramp 6 1 40',
+      });
+      await expect(next).resolves.toBe(0);
+    });
+
+    it('rejects commands that time out', async () => {
+      controller.silent.add('GETBLIND');
+
+      await expect(infusion.getBlindPosition('201')).rejects.toThrow('Timed out waiting for response to "GETBLIND 201"');
+      await expect(infusion.getBlindPosition('202')).rejects.toThrow();
+      controller.silent.clear();
+      await expect(infusion.getLoadStatus('101')).resolves.toBe(0);
+    });
+
+    it('does not answer a request with a late response for another object', async () => {
+      controller.silent.add('GETLOAD 101');
+      await expect(infusion.getLoadStatus('101')).rejects.toThrow('Timed out');
+
+      controller.silent.add('GETLOAD 102');
+      const other = infusion.getLoadStatus('102');
+      await controller.waitForCommand('GETLOAD 102');
+      controller.push('R:GETLOAD 101 11.000');
+      controller.push('R:GETLOAD 102 40.000');
+
+      await expect(other).resolves.toBe(40);
+    });
+
+    it('does not answer a request with a response for another method or setpoint', async () => {
+      controller.silent.add('INVOKE 301 Thermostat.GetHVACState');
+      controller.silent.add('GETTHERMTEMP 301 COOL');
+      const state = infusion.getThermostatState('301');
+      await controller.waitForCommand('GETTHERMTEMP 301 COOL');
+      controller.push('R:INVOKE 301 0 Thermostat.GetHoldMode');
+      controller.push('R:THERMTEMP 301 HEAT 19.000');
+      controller.push('R:INVOKE 301 2 Thermostat.GetHVACState');
+      controller.push('R:THERMTEMP 301 COOL 25.000');
+
+      await expect(state).resolves.toMatchObject({ runningState: 2, coolSetpoint: 25 });
+    });
+
+    it('ramps loads and reports the resulting status', async () => {
+      const status = waitForEvent(infusion, 'loadStatusChange');
+      await infusion.setLoadLevel('101', 40);
+
+      expect(await controller.waitForCommand('INVOKE 101')).toBe('INVOKE 101 Load.Ramp 6 1 40');
+      expect(await status).toEqual(['101', 40]);
+    });
+
+    it('emits load status pushed by the controller', async () => {
+      const status = waitForEvent(infusion, 'loadStatusChange');
+      controller.push('S:LOAD 105 75.000');
+
+      expect(await status).toEqual(['105', 75]);
+    });
+
+    it('reassembles status lines split across socket reads', async () => {
+      const statuses: unknown[][] = [];
+      infusion.on('loadStatusChange', (...args) => statuses.push(args));
+      const last = waitForEvent(infusion, 'loadStatusChange', vid => vid === '102');
+
+      controller.pushRaw('S:LOAD 101 6');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      controller.pushRaw('0.000\r\nS:LOAD 102 100.000\r\n');
+      await last;
+
+      expect(statuses).toEqual([['101', 60], ['102', 100]]);
+    });
+
+    it('surfaces messages it does not understand', async () => {
+      const unknown = waitForEvent(infusion, 'unknownMessage');
+      controller.push('S:SOMETHING 12 new');
+
+      const [message] = await unknown;
+      expect(message).toMatchObject({ type: 'unknown', command: 'S:SOMETHING', args: ['12', 'new'] });
+    });
+
+    it('emits keypad button events', async () => {
+      const event = waitForEvent(infusion, 'buttonStatusChange');
+      controller.push('S:BTN 411 PRESS');
+
+      expect(await event).toEqual(['411', 'PRESS']);
+    });
+
+    it('starts and stops tasks and reports their state', async () => {
+      const started = waitForEvent(infusion, 'taskStatusChange', (vid, running) => running);
+      await infusion.startTask('501');
+
+      expect(await started).toEqual(['501', true]);
+      await expect(infusion.getTaskState('501')).resolves.toBe(true);
+
+      await infusion.stopTask('501');
+      expect(controller.received).toContain('INVOKE 501 Task.Stop');
+      await expect(infusion.getTaskState('501')).resolves.toBe(false);
+    });
+
+    it('reads and writes variables and reports their changes', async () => {
+      const changed = waitForEvent(infusion, 'variableStatusChange', (vid, value) => value === 3);
+      await infusion.setVariable('602', 3);
+
+      expect(controller.received).toContain('VARIABLE 602 3');
+      expect(await changed).toEqual(['602', 3]);
+      await expect(infusion.getVariable('602')).resolves.toBe(3);
+    });
+
+    it('sets and reads the color of RGB loads', async () => {
+      const changed = waitForEvent(infusion, 'loadColorChange');
+      await infusion.setLoadColor('106', 240, 80);
+
+      expect(controller.received).toContain('INVOKE 106 RGBLoad.SetHSL 240 80 50');
+      expect(await changed).toEqual(['106', { hue: 240, saturation: 80, lightness: 50 }]);
+      await expect(infusion.getLoadColor('106')).resolves.toEqual({ hue: 240, saturation: 80, lightness: 50 });
+    });
+
+    it('sets and reads the color temperature of tunable-white loads', async () => {
+      const changed = waitForEvent(infusion, 'loadColorTemperatureChange');
+      await infusion.setColorTemperature('107', 3999.6);
+
+      expect(controller.received).toContain('INVOKE 107 Load.SetColorTemperature 4000');
+      expect(await changed).toEqual(['107', 4000]);
+      await expect(infusion.getColorTemperature('107')).resolves.toBe(4000);
+    });
+
+    it('pulses relays shorter than the write coalescing window', async () => {
+      infusion.close();
+      infusion = createInfusion(controller, { writeCoalesceTime: 1000 });
+      await waitForState(infusion, 'subscribed');
+
+      await infusion.pulseLoad('108', 10);
+
+      expect(controller.received.filter(line => line.startsWith('INVOKE 108'))).toEqual([
+        'INVOKE 108 Load.Ramp 6 0 100',
+        'INVOKE 108 Load.Ramp 6 0 0',
+      ]);
+      expect(controller.loads.get('108')).toBe(0);
+    });
+
+    it('moves blinds and reports their position', async () => {
+      const status = waitForEvent(infusion, 'blindStatusChange');
+      await infusion.setBlindPosition('201', 30);
+
+      expect(await controller.waitForCommand('BLIND')).toBe('BLIND 201 POS 30');
+      expect(await status).toEqual(['201', 30]);
+    });
+
+    it('reads thermostat state from the controller', async () => {
+      controller.thermostats.set('301', { mode: 'AUTO', indoor: 22.5, heat: 19, cool: 25, running: 2 });
+
+      expect(await infusion.getThermostatState('301')).toEqual({
+        indoorTemperature: 22.5,
+        mode: 3,
+        heatSetpoint: 19,
+        coolSetpoint: 25,
+        runningState: 2,
+      });
+    });
+
+    it('reads thermostats that do not report their running state', async () => {
+      controller.failing.add('INVOKE 301 Thermostat.GetHVACState');
+
+      expect(await infusion.getThermostatState('301')).toMatchObject({ mode: 0, runningState: NaN });
+    });
+
+    it('reports setpoints and running state as their own events', async () => {
+      controller.thermostats.set('301', { mode: 'HEAT', indoor: 18, heat: 21, cool: 25, running: 1 });
+      const heat = waitForEvent(infusion, 'thermostatSetpointChange', (vid, setpoint) => setpoint === 'HEAT');
+      const cool = waitForEvent(infusion, 'thermostatSetpointChange', (vid, setpoint) => setpoint === 'COOL');
+      const running = waitForEvent(infusion, 'thermostatRunningStateChange');
+      const modes = [];
+      infusion.on('thermostatIndoorModeChange', (...args) => modes.push(args));
+      await infusion.getThermostatState('301');
+
+      expect(await heat).toEqual(['301', 'HEAT', 21]);
+      expect(await cool).toEqual(['301', 'COOL', 25]);
+      expect(await running).toEqual(['301', 1]);
+      expect(modes).toEqual([['301', 1]]);
+    });
+
+    it('reads dry contacts and reports them opening and closing', async () => {
+      controller.contacts.set('801', true);
+      await expect(infusion.getContactState('801')).resolves.toBe(true);
+
+      const opened = waitForEvent(infusion, 'contactStatusChange');
+      controller.push('S:BTN 801 RELEASE');
+      expect(await opened).toEqual(['801', false]);
+    });
+
+    it('reads temperature sensors and reports their updates', async () => {
+      controller.temperatures.set('701', -4.5);
+      await expect(infusion.getTemperature('701')).resolves.toBe(-4.5);
+
+      const update = waitForEvent(infusion, 'temperatureChange', (vid) => vid === '701');
+      controller.push('S:TEMP 701 -5.000');
+      expect(await update).toEqual(['701', -5]);
+    });
+
+    it('controls the thermostat fan and hold and reads humidity', async () => {
+      controller.thermostats.set('301', { mode: 'HEAT', indoor: 20, heat: 21, cool: 25, humidity: 41.5 });
+      const fan = waitForEvent(infusion, 'thermostatFanChange', (vid, on) => on);
+      const hold = waitForEvent(infusion, 'thermostatHoldChange', (vid, held) => held);
+
+      await infusion.setThermostatFan('301', true);
+      await infusion.setThermostatHold('301', true);
+
+      expect(controller.received).toEqual(expect.arrayContaining(['THERMFAN 301 ON', 'INVOKE 301 Thermostat.SetHoldMode 1']));
+      expect(await fan).toEqual(['301', true]);
+      expect(await hold).toEqual(['301', true]);
+      await expect(infusion.getThermostatFan('301')).resolves.toBe(true);
+      await expect(infusion.getThermostatHold('301')).resolves.toBe(true);
+      await expect(infusion.getThermostatHumidity('301')).resolves.toBe(41.5);
+
+      await infusion.setThermostatFan('301', false);
+      expect(controller.thermostats.get('301')?.fan).toBe('AUTO');
+    });
+
+    it('converts temperatures when the project is set to Fahrenheit', async () => {
+      infusion['parseProject'](readFileSync(FIXTURE_PROJECT, 'utf8').replace('<Objects>', '<TemperatureFormat>Fahrenheit</TemperatureFormat><Objects>'));
+      expect(infusion.temperatureUnits).toBe('F');
+      controller.thermostats.set('301', { mode: 'AUTO', indoor: 72, heat: 68, cool: 77 });
+      const setpoint = waitForEvent(infusion, 'thermostatSetpointChange', (vid, which) => which === 'HEAT');
+
+      expect(await infusion.getThermostatState('301')).toMatchObject({ indoorTemperature: 22.2, heatSetpoint: 20, coolSetpoint: 25 });
+      expect(await setpoint).toEqual(['301', 'HEAT', 20]);
+
+      await infusion.setThermostatSetpoint('301', 'COOL', 23.5);
+      expect(controller.thermostats.get('301')?.cool).toBe(74.3);
+    });
+
+    it('reads thermostat temperature and mode', async () => {
+      controller.thermostats.set('301', { mode: 'COOL', indoor: 22.5, heat: 19, cool: 25 });
+      const temperature = waitForEvent(infusion, 'thermostatIndoorTemperatureChange');
+      const mode = waitForEvent(infusion, 'thermostatIndoorModeChange');
+      await infusion.getThermostatState('301');
+
+      expect(await temperature).toEqual(['301', 22.5]);
+      expect(await mode).toEqual(['301', 2]);
+    });
+  });
+});